@@ -1,28 +1,107 @@
-// The module 'vscode' contains the VS Code extensibility API
-// Import the module and reference it with the alias vscode in your code below
 import * as vscode from "vscode";
+import { DataTransferService } from "./services/DataTransferService";
+import { StorageMigrator } from "./services/StorageMigrator";
+import { StorageService } from "./services/StorageService";
+import { SyncService } from "./services/SyncService";
+import { TypeshWebViewProvider } from "./webviewProvider";
 
-// This method is called when your extension is activated
-// Your extension is activated the very first time the command is executed
-export function activate(context: vscode.ExtensionContext) {
-  // Use the console to output diagnostic information (console.log) and errors (console.error)
-  // This line of code will only be executed once when your extension is activated
-  console.log('Congratulations, your extension "typesh" is now active!');
-
-  // The command has been defined in the package.json file
-  // Now provide the implementation of the command with registerCommand
-  // The commandId parameter must match the command field in package.json
-  const disposable = vscode.commands.registerCommand(
-    "typesh.helloWorld",
-    () => {
-      // The code you place here will be executed every time your command is executed
-      // Display a message box to the user
-      vscode.window.showInformationMessage("Hello World from typesh!");
-    }
+export async function activate(context: vscode.ExtensionContext) {
+  const storageService = new StorageService(context);
+  const syncService = new SyncService(context, storageService);
+
+  // Awaited before the view and commands are registered, so none of them reads data in an
+  // older schema. Commands that activate the extension wait until activate returns.
+  let migrated = true;
+  try {
+    await new StorageMigrator(context, storageService).run();
+  } catch (error) {
+    migrated = false;
+    vscode.window.showErrorMessage(
+      `typesh: failed to migrate stored data: ${error}`
+    );
+  }
+
+  // Stats are brought up to date and sessions compacted before the first sync
+  if (migrated)
+    storageService
+      .reanalyzeSessions()
+      .then(() => storageService.compactSessions())
+      .then(() => syncService.sync())
+      .catch((error) =>
+        vscode.window.showErrorMessage(
+          `typesh: failed to sync typing data: ${error}`
+        )
+      );
+
+  const provider = new TypeshWebViewProvider(context, storageService);
+
+  context.subscriptions.push(
+    vscode.window.registerWebviewViewProvider(
+      TypeshWebViewProvider.viewType,
+      provider,
+      { webviewOptions: { retainContextWhenHidden: true } } // keep the running session alive when the view is collapsed
+    )
+  );
+
+  // Command palette entries, each one delegates to the provider //
+  context.subscriptions.push(
+    vscode.commands.registerCommand("typesh.startTest", () =>
+      provider.startTest()
+    ),
+    vscode.commands.registerCommand("typesh.pauseTest", () =>
+      provider.pauseTest()
+    ),
+    vscode.commands.registerCommand("typesh.resumeTest", () =>
+      provider.resumeTest()
+    ),
+    vscode.commands.registerCommand("typesh.endTest", () => provider.endTest()),
+    vscode.commands.registerCommand("typesh.showHistory", () =>
+      provider.showHistory()
+    )
   );
 
-  context.subscriptions.push(disposable);
+  // Backups and moving data between machines //
+  const dataTransfer = new DataTransferService(storageService);
+  context.subscriptions.push(
+    vscode.commands.registerCommand("typesh.exportData", () =>
+      dataTransfer.exportToFile()
+    ),
+    vscode.commands.registerCommand("typesh.importData", async () => {
+      const result = await dataTransfer.importFromFile();
+      if (result) await provider.refreshData();
+    }),
+    vscode.commands.registerCommand("typesh.exportCsv", () =>
+      dataTransfer.exportReportToFile("csv")
+    ),
+    vscode.commands.registerCommand("typesh.exportReport", () =>
+      dataTransfer.exportReportToFile("markdown")
+    )
+  );
+
+  // Settings are configuration, so they can change without the webview asking
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (!event.affectsConfiguration(StorageService.CONFIGURATION_SECTION))
+        return;
+
+      provider.refreshSettings();
+      syncService.scheduleSync();
+    })
+  );
+
+  // Settings Sync, opt-in per scope //
+  storageService.onDataChange(() => syncService.scheduleSync());
+  syncService.onRemoteChanges(() => provider.refreshData());
+  context.subscriptions.push(
+    syncService,
+    // Synced keys may have changed while the window was in the background
+    vscode.window.onDidChangeWindowState((state) => {
+      if (state.focused) syncService.scheduleSync();
+    }),
+    vscode.commands.registerCommand("typesh.configureSync", () =>
+      syncService.configure()
+    )
+  );
 }
 
-// This method is called when your extension is deactivated
 export function deactivate() {}
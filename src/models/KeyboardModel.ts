@@ -0,0 +1,43 @@
+export type KeyboardLayoutName = "qwerty" | "dvorak" | "colemak";
+
+export type Hand = "left" | "right" | "both"; // the space bar belongs to either thumb
+export type Finger = "pinky" | "ring" | "middle" | "index" | "thumb";
+
+export interface KeyboardKey {
+  base: string; // character typed without shift
+  shifted: string;
+  row: number; // 0 for the number row, 4 for the space bar
+  column: number;
+  hand: Hand;
+  finger: Finger;
+}
+
+export interface KeyboardLayout {
+  name: KeyboardLayoutName;
+  label: string;
+  rows: KeyboardKey[][];
+}
+
+// Totals for one key or finger over the analyzed sessions
+export interface KeyHeatStats {
+  typed: number; // times it was expected in the typed part of the text
+  errors: number;
+  errorRate: number; // percent of typed
+  averageLatency: number | null; // ms, null when it was never timed
+}
+
+export interface KeyHeat extends KeyHeatStats {
+  key: KeyboardKey;
+}
+
+export interface FingerHeat extends KeyHeatStats {
+  hand: Hand;
+  finger: Finger;
+}
+
+export interface KeyHeatmap {
+  layout: KeyboardLayoutName;
+  sessions: number; // sessions that had keystrokes to analyze
+  keys: KeyHeat[]; // every key of the layout, in row order
+  fingers: FingerHeat[]; // only fingers that typed something
+}
@@ -1,4 +1,4 @@
-import { Keystroke } from "./TypingModel";
+import { Keystroke, TypingSession, TypingStats } from "./TypingModel";
 
 export type SessionMode = "tick-tick" | "words" | "passage";
 
@@ -7,6 +7,7 @@ export interface SessionConfig {
   mode: SessionMode;
   target: number; // seconds for tick-tick mode, word count for words (0 for passage mode)
   targetText: string;
+  paragraphId?: string; // set when the text came from a stored paragraph
 }
 
 export interface SessionState {
@@ -19,3 +20,112 @@ export interface SessionState {
   currentPosition: number;
   keystrokes: Keystroke[];
 }
+
+// Updated on every keystroke without replaying the session
+export interface LiveStats {
+  wpm: number; // net, like TypingStats.wpm
+  rawWpm: number;
+  burstWpm: number; // raw speed over the last 5 seconds
+  accuracy: number; // correct keypresses so far, percent
+  errors: number; // wrong characters currently in the input
+}
+
+// A recorded session as it looked at one point of its replay
+export interface ReplayFrame {
+  time: number; // ms since the session started
+  keyCount: number; // keystrokes applied so far
+  input: string;
+  correctedPositions: number[]; // where a wrong character was typed and erased
+  stats: LiveStats;
+}
+
+export interface LiveSessionMetrics extends LiveStats {
+  elapsedTime: number; // seconds
+  remainingTime: number; // seconds, always 0 outside tick-tick mode
+  progress: number; // percentage towards the mode's target
+}
+
+// Payload of the sessionUpdate message
+export interface SessionUpdate extends SessionState {
+  metrics: LiveSessionMetrics;
+}
+
+// A saved session bundled with the stats computed when it was saved
+export interface SessionRecord {
+  session: TypingSession;
+  stats: TypingStats;
+  mode: SessionMode | null; // null for sessions saved before the mode was recorded
+  target: number;
+  paragraphId?: string;
+  category?: string;
+  analyzerVersion: number; // TypingAnalyzer.VERSION that produced the stats
+  summaryOnly?: boolean; // synced from another machine, without text or keystrokes
+}
+
+// The part of a record other machines get through Settings Sync, and the history view lists
+export interface SessionSummary
+  extends Omit<SessionRecord, "session" | "stats"> {
+  session: Omit<TypingSession, "targetText" | "userInput" | "keystrokes">;
+  stats: Omit<
+    TypingStats,
+    | "errorPatterns"
+    | "allErrorPatterns"
+    | "keystrokeErrors"
+    | "wordErrors"
+    | "latency"
+  >;
+}
+
+// Paging query over saved sessions, newest first
+export interface SessionQuery {
+  offset?: number;
+  limit?: number; // all matching sessions when omitted
+  mode?: SessionMode;
+  since?: Date; // sessions that ended at or after this time
+  ids?: string[]; // only these sessions
+}
+
+export interface SessionPage {
+  records: SessionRecord[];
+  total: number; // matching sessions before offset and limit were applied
+}
+
+// A page of the history as the webview gets it, full records are loaded one at a time
+export interface SessionHistoryPage {
+  summaries: SessionSummary[];
+  offset: number;
+  total: number;
+}
+
+export type TrendPeriod = "day" | "week";
+
+export interface HistoryFilters {
+  mode: SessionMode | "all";
+  category: string; // "all", or a paragraph category
+  from: string; // yyyy-mm-dd, empty for no lower bound
+  to: string; // yyyy-mm-dd, empty for no upper bound
+}
+
+export interface TrendPoint {
+  period: string; // yyyy-mm-dd of the day, or of the Monday starting the week
+  wpm: number;
+  accuracy: number;
+  sessions: number;
+}
+
+export interface PersonalBest {
+  key: string;
+  mode: SessionMode | null;
+  target: number;
+  paragraphId?: string;
+  entry: SessionSummary;
+}
+
+// Aggregates over every saved session, not only the history pages the webview loaded
+export interface HistoryStats {
+  sessions: number; // sessions matching the filters
+  categories: string[]; // of all sessions, for the filter menu
+  trend: TrendPoint[];
+  bests: PersonalBest[];
+  heatmapIds: string[]; // matching sessions that have keystrokes
+}
@@ -1,3 +1,5 @@
+import { SessionMode } from "./SessionModel";
+
 export interface TypingSession {
   id: string;
   startTime: Date | null;
@@ -7,6 +9,8 @@ export interface TypingSession {
   keystrokes: Keystroke[];
   timerDuration: number; // seconds
   isCompleted: boolean;
+  mode?: SessionMode;
+  paragraphId?: string;
 }
 
 export interface Keystroke {
@@ -16,13 +20,18 @@ export interface Keystroke {
 }
 
 export interface TypingStats {
-  wpm: number;
-  grossWPM: number;
+  wpm: number; // net, correct characters as 5-character words per minute
+  grossWPM: number; // raw, every typed character
+  wordsWPM: number; // target words typed exactly right per minute
   accuracy: number;
   errorCount: number;
   correctedErrors: number;
   consistencyScore: number;
-  errorPatterns: ErrorPattern[];
+  errorPatterns: ErrorPattern[]; // uncorrected, what the final text still gets wrong
+  allErrorPatterns: ErrorPattern[]; // every wrong keypress, corrected or not
+  keystrokeErrors: KeystrokeError[];
+  wordErrors: WordError[]; // target words typed wrong, corrected or not
+  latency: LatencyStats;
 
   characterStats: {
     correct: number;
@@ -32,19 +41,68 @@ export interface TypingStats {
   };
 }
 
+// Timing of one target character or character sequence, over uninterrupted runs of typing
+export interface NGramStat {
+  sequence: string; // target characters, a single one for per-key stats
+  count: number; // times it was typed
+  errors: number; // times its last character came out wrong
+  averageLatency: number; // ms, see LatencyStats for what is measured
+  medianLatency: number;
+}
+
+export interface LatencyStats {
+  keys: NGramStat[]; // ms since the previous keystroke, slowest first
+  slowest: NGramStat[]; // bigrams and trigrams, ms from first to last keystroke
+  mostErrors: NGramStat[]; // bigrams and trigrams by error rate
+}
+
 export interface ErrorPattern {
   character: string;
   frequency: number;
   positions: number[];
   commonMistakes: string[]; // misspelled character
-  errorType?: "substitution" | "deletion" | "insertion";
+  errorType?: ErrorType; // the most frequent of errorTypes
+  errorTypes?: ErrorType[]; // every kind of error made here, most frequent first
+  // Only in the all-errors view, built from the keystrokes
+  corrected?: number; // how many of frequency were backspaced over
+  averageTimeToNotice?: number; // ms
+  averageTimeToFix?: number; // ms
+}
+
+// One target word over every time it was typed
+export interface WordError {
+  word: string;
+  count: number; // times it was typed
+  errors: number; // times it was left wrong in the text
+  corrected: number; // times it was typed wrong and fixed
+  typedInstead: string[]; // wrong versions left in the text, most frequent first
+  averageDuration: number | null; // ms from the keystroke before it to its last one, null without keystrokes
+}
+
+// One wrong keypress, recorded when it happened even if it was corrected later
+export interface KeystrokeError {
+  index: number; // position of the keystroke in the stream
+  timestamp: number;
+  position: number; // in the target text
+  expectedChar: string | null; // null past the end of the target
+  actualChar: string;
+  corrected: boolean; // removed with backspace later
+  timeToNotice?: number; // ms until the first backspace of the run that removed it
+  timeToFix?: number; // ms until the right character was typed in its place
 }
 
+// A transposition is two neighbouring characters typed in swapped order
+export type ErrorType =
+  | "substitution"
+  | "deletion"
+  | "insertion"
+  | "transposition";
+
 export interface ErrorFound {
   expectedChar: string | null;
   actualChar: string | null;
   position: number;
-  type: "substitution" | "deletion" | "insertion";
+  type: ErrorType;
 }
 
 export interface CustomParagraph {
@@ -54,10 +112,17 @@ export interface CustomParagraph {
   dateAdded: Date;
   difficulty?: "easy" | "medium" | "hard";
   category?: string;
+  updatedAt?: Date; // last local edit, resolves sync conflicts
 }
 
+// What Settings Sync carries between machines. Nothing is synced unless chosen.
+// Settings are configuration, VS Code's own Settings Sync carries them
+export type SyncScope = "paragraphs" | "sessions";
+
 export interface ExtensionSettings {
   defaultTimer: number;
   showRealTimeStats: boolean;
   theme: "light" | "dark" | "auto";
+  historyRetentionDays?: number; // sessions older than this are removed, unset keeps all
+  syncScope?: SyncScope[]; // per machine, never synced itself
 }
@@ -0,0 +1,438 @@
+import * as vscode from "vscode";
+import {
+  CustomParagraph,
+  ExtensionSettings,
+  TypingSession,
+  TypingStats,
+} from "../models/TypingModel";
+import { SessionRecord } from "../models/SessionModel";
+import { reviveSessionDates, StorageService } from "./StorageService";
+import { ReportService } from "./ReportService";
+import { TypingAnalyzer } from "./TypingAnalyzer";
+
+export const EXPORT_FORMAT = "typesh-export";
+export const EXPORT_VERSION = 1;
+
+// Everything a user owns, in one file that can move between machines
+export interface TypeshExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  sessions: SessionRecord[];
+  paragraphs: CustomParagraph[];
+  settings: ExtensionSettings;
+}
+
+export type ReportFormat = "csv" | "markdown";
+
+// merge keeps existing data and skips incoming ids already present, replace starts over
+export type ImportMode = "merge" | "replace";
+
+export interface RejectedRecord {
+  kind: "session" | "paragraph" | "settings";
+  index?: number; // position in the file
+  id?: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  sessionsImported: number;
+  paragraphsImported: number;
+  settingsImported: boolean;
+  duplicates: number; // records skipped because their id already existed
+  rejected: RejectedRecord[];
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const idOf = (value: unknown) =>
+  isObject(value) && typeof value.id === "string" ? value.id : undefined;
+
+const isList = (value: unknown) =>
+  Array.isArray(value) && value.every(isObject);
+
+// Every field the history, heatmap and session views read
+const isStats = (value: unknown): value is TypingStats =>
+  isObject(value) &&
+  [
+    value.wpm,
+    value.grossWPM,
+    value.wordsWPM,
+    value.accuracy,
+    value.errorCount,
+    value.correctedErrors,
+    value.consistencyScore,
+  ].every(Number.isFinite) &&
+  [
+    value.errorPatterns,
+    value.allErrorPatterns,
+    value.keystrokeErrors,
+    value.wordErrors,
+  ].every(isList) &&
+  isObject(value.latency) &&
+  [value.latency.keys, value.latency.slowest, value.latency.mostErrors].every(
+    isList
+  ) &&
+  isObject(value.characterStats) &&
+  [
+    value.characterStats.correct,
+    value.characterStats.incorrect,
+    value.characterStats.extra,
+    value.characterStats.missed,
+  ].every(Number.isFinite);
+
+export class DataTransferService {
+  private output?: vscode.OutputChannel;
+
+  constructor(private storageService: StorageService) {}
+
+  // Commands //
+
+  public async exportToFile(): Promise<void> {
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(
+        `typesh-export-${new Date().toISOString().slice(0, 10)}.json`
+      ),
+      filters: { JSON: ["json"] },
+      saveLabel: "Export",
+    });
+    if (!target) return;
+
+    try {
+      const data = await this.createExport();
+      await vscode.workspace.fs.writeFile(
+        target,
+        encoder.encode(JSON.stringify(data, null, 2))
+      );
+
+      vscode.window.showInformationMessage(
+        `Exported ${data.sessions.length} sessions and ${data.paragraphs.length} paragraphs`
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to export typing data: ${error}`);
+    }
+  }
+
+  // Returns the result so the caller can refresh views, undefined when cancelled
+  public async importFromFile(): Promise<ImportResult | undefined> {
+    const [source] =
+      (await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { JSON: ["json"] },
+        openLabel: "Import",
+      })) ?? [];
+    if (!source) return undefined;
+
+    const choice = await vscode.window.showQuickPick(
+      [
+        {
+          label: "Merge",
+          description: "Keep existing data, skip records that already exist",
+          mode: "merge" as const,
+        },
+        {
+          label: "Replace",
+          description: "Delete existing sessions and paragraphs first",
+          mode: "replace" as const,
+        },
+      ],
+      { placeHolder: "How should the imported data be combined?" }
+    );
+    if (!choice) return undefined;
+
+    try {
+      const raw: unknown = JSON.parse(
+        decoder.decode(await vscode.workspace.fs.readFile(source))
+      );
+      const result = await this.importData(raw, choice.mode);
+      this.reportImport(result);
+      return result;
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to import typing data: ${error}`);
+      return undefined;
+    }
+  }
+
+  // Writes the selected sessions as a CSV sheet or a Markdown summary
+  public async exportReportToFile(format: ReportFormat): Promise<void> {
+    const records = await this.pickSessions();
+    if (!records) return;
+
+    const extension = format === "csv" ? "csv" : "md";
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(
+        `typesh-report-${new Date().toISOString().slice(0, 10)}.${extension}`
+      ),
+      filters: format === "csv" ? { CSV: ["csv"] } : { Markdown: ["md"] },
+      saveLabel: "Export",
+    });
+    if (!target) return;
+
+    try {
+      const rows = ReportService.createRows(records);
+      const content =
+        format === "csv"
+          ? ReportService.toCsv(rows)
+          : ReportService.toMarkdown(rows);
+
+      await vscode.workspace.fs.writeFile(target, encoder.encode(content));
+      vscode.window.showInformationMessage(
+        `Exported a report of ${rows.length} sessions`
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to export report: ${error}`);
+    }
+  }
+
+  // A date range covers most needs, picking single sessions is the fallback
+  private async pickSessions(): Promise<SessionRecord[] | undefined> {
+    const range = await vscode.window.showQuickPick(
+      [
+        { label: "All sessions", days: undefined },
+        { label: "Last 7 days", days: 7 },
+        { label: "Last 30 days", days: 30 },
+        { label: "Choose sessions...", days: -1 },
+      ],
+      { placeHolder: "Which sessions should the report cover?" }
+    );
+    if (!range) return undefined;
+
+    if (range.days !== -1) {
+      const page = await this.storageService.getSessions({
+        since: range.days
+          ? new Date(Date.now() - range.days * 24 * 60 * 60 * 1000)
+          : undefined,
+      });
+      if (page.records.length > 0) return page.records;
+
+      vscode.window.showInformationMessage("No sessions in that range");
+      return undefined;
+    }
+
+    const records = await this.storageService.getSessionRecords();
+    const picked = await vscode.window.showQuickPick(
+      records.map((record) => ({
+        label: record.session.endTime?.toLocaleString() ?? record.session.id,
+        description: `${record.mode ?? "unknown mode"}, ${
+          record.stats.wpm
+        } wpm, ${record.stats.accuracy}%`,
+        record,
+      })),
+      { canPickMany: true, placeHolder: "Sessions to include" }
+    );
+
+    return picked && picked.length > 0
+      ? picked.map((item) => item.record)
+      : undefined;
+  }
+
+  // Export & Import //
+
+  public async createExport(): Promise<TypeshExport> {
+    return {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      sessions: await this.storageService.getSessionRecords(),
+      paragraphs: await this.storageService.getCustomParagraphs(),
+      settings: await this.storageService.getSettings(),
+    };
+  }
+
+  // Invalid records are collected in the result, only an unreadable file throws
+  public async importData(
+    raw: unknown,
+    mode: ImportMode
+  ): Promise<ImportResult> {
+    if (!isObject(raw) || raw.format !== EXPORT_FORMAT)
+      throw new Error("Not a typesh export file");
+
+    if (typeof raw.version !== "number" || raw.version > EXPORT_VERSION)
+      throw new Error(
+        `Unsupported export version ${String(
+          raw.version
+        )}, expected ${EXPORT_VERSION} or older`
+      );
+
+    const rejected: RejectedRecord[] = [];
+    const sessions = this.readSessions(raw.sessions, rejected);
+    const paragraphs = this.readParagraphs(raw.paragraphs, rejected);
+    const settings = this.readSettings(raw.settings, rejected);
+
+    // Everything is read and validated above, replacing swaps it in at once
+    const existingSessionIds = new Set(
+      mode === "replace" ? [] : await this.storageService.getSessionIds()
+    );
+
+    const customParagraphs =
+      mode === "replace" ? [] : await this.storageService.getCustomParagraphs();
+    // Built-in paragraphs keep their ids, so an import cannot shadow them
+    const existingParagraphIds = new Set([
+      ...(await this.storageService.getDefaultParagraphs()).map((p) => p.id),
+      ...customParagraphs.map((p) => p.id),
+    ]);
+
+    const newSessions = sessions.filter(({ session }) =>
+      claimId(existingSessionIds, session.id)
+    );
+    const newParagraphs = paragraphs.filter((p) =>
+      claimId(existingParagraphIds, p.id)
+    );
+
+    if (mode === "replace")
+      await this.storageService.replaceSessions(newSessions);
+    else await this.storageService.saveSessions(newSessions);
+    await this.storageService.replaceCustomParagraphs([
+      ...customParagraphs,
+      ...newParagraphs,
+    ]);
+
+    if (settings) await this.storageService.saveSettings(settings);
+
+    return {
+      sessionsImported: newSessions.length,
+      paragraphsImported: newParagraphs.length,
+      settingsImported: settings !== undefined,
+      duplicates:
+        sessions.length -
+        newSessions.length +
+        paragraphs.length -
+        newParagraphs.length,
+      rejected,
+    };
+  }
+
+  // Record Validation //
+
+  // Accepts stored records and bare sessions. Stats that are incomplete or from another analyzer
+  // version are recomputed, except for summary-only records, whose text and keystrokes were never there.
+  private readSessions(
+    value: unknown,
+    rejected: RejectedRecord[]
+  ): { session: TypingSession; stats: TypingStats; summaryOnly?: boolean }[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      rejected.push({ kind: "session", reason: "sessions must be a list" });
+      return [];
+    }
+
+    return value.flatMap((entry, index) => {
+      const isRecord = isObject(entry) && isObject(entry.session);
+      const stored = isRecord ? entry.session : entry;
+
+      try {
+        this.storageService.validateSession(stored);
+
+        const session = reviveSessionDates(stored);
+        const summaryOnly = isRecord && entry.summaryOnly === true;
+        if (summaryOnly && !isStats(entry.stats))
+          throw new Error("Summary-only session has no stats");
+
+        // Also rejects sessions the analyzer cannot handle, e.g. without times
+        const stats: TypingStats =
+          isRecord &&
+          isStats(entry.stats) &&
+          (summaryOnly || entry.analyzerVersion === TypingAnalyzer.VERSION)
+            ? entry.stats
+            : TypingAnalyzer.analyzeSession(session);
+
+        return [
+          summaryOnly ? { session, stats, summaryOnly } : { session, stats },
+        ];
+      } catch (error) {
+        rejected.push({
+          kind: "session",
+          index,
+          id: idOf(stored),
+          reason: error instanceof Error ? error.message : String(error),
+        });
+        return [];
+      }
+    });
+  }
+
+  private readParagraphs(
+    value: unknown,
+    rejected: RejectedRecord[]
+  ): CustomParagraph[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      rejected.push({ kind: "paragraph", reason: "paragraphs must be a list" });
+      return [];
+    }
+
+    return value.flatMap((paragraph, index) => {
+      if (this.storageService.validateParagraph(paragraph))
+        return [
+          {
+            ...paragraph,
+            dateAdded: new Date(paragraph.dateAdded ?? Date.now()),
+          },
+        ];
+
+      rejected.push({
+        kind: "paragraph",
+        index,
+        id: idOf(paragraph),
+        reason: "Invalid paragraph data",
+      });
+      return [];
+    });
+  }
+
+  private readSettings(
+    value: unknown,
+    rejected: RejectedRecord[]
+  ): ExtensionSettings | undefined {
+    if (value === undefined) return undefined;
+    if (this.storageService.validateSettings(value)) return value;
+
+    rejected.push({ kind: "settings", reason: "Invalid settings provided" });
+    return undefined;
+  }
+
+  // Rejected records go to an output channel, the notification only has the counts
+  private reportImport(result: ImportResult): void {
+    const summary =
+      `Imported ${result.sessionsImported} sessions and ${result.paragraphsImported} paragraphs` +
+      (result.settingsImported ? " with settings" : "") +
+      (result.duplicates > 0
+        ? `, skipped ${result.duplicates} duplicates`
+        : "");
+
+    if (result.rejected.length === 0) {
+      vscode.window.showInformationMessage(summary);
+      return;
+    }
+
+    this.output ??= vscode.window.createOutputChannel("typesh");
+    this.output.appendLine(`Import on ${new Date().toLocaleString()}`);
+    for (const record of result.rejected)
+      this.output.appendLine(
+        `  rejected ${record.kind}` +
+          (record.index !== undefined ? ` #${record.index}` : "") +
+          (record.id ? ` (${record.id})` : "") +
+          `: ${record.reason}`
+      );
+
+    vscode.window
+      .showWarningMessage(
+        `${summary}. ${result.rejected.length} records were rejected.`,
+        "Show Details"
+      )
+      .then((action) => {
+        if (action) this.output?.show();
+      });
+  }
+}
+
+// Adds the id to the set, false when it was already there
+function claimId(ids: Set<string>, id: string): boolean {
+  if (ids.has(id)) return false;
+  ids.add(id);
+  return true;
+}
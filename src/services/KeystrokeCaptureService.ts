@@ -1,5 +1,12 @@
+import { Clock, systemClock } from "./components/clock";
+
 const SERVICE_NAME = "KeystrokeCaptureService";
-export type KeystrokeHandler = (key: string, event?: KeyboardEvent) => boolean;
+// timestamp is when the key was captured, read from the service's clock
+export type KeystrokeHandler = (
+  key: string,
+  event?: KeyboardEvent,
+  timestamp?: number
+) => boolean;
 export type FocusHandler = () => void;
 export type BlurHandler = () => void;
 
@@ -9,6 +16,7 @@ export interface CaptureOptions {
   captureSpecialKeys?: boolean;
   enabledKeys?: string[];
   disabledKeys?: string[];
+  clock?: Clock;
 }
 
 interface CaptureState {
@@ -39,6 +47,7 @@ export class KeystrokeCaptureService {
         captureSpecialKeys: options.captureSpecialKeys ?? true,
         enabledKeys: options.enabledKeys || [],
         disabledKeys: options.disabledKeys || ["F5", "F12", "Tab", "F1"],
+        clock: options.clock ?? systemClock,
       };
 
       this.targetElement = this.options.element;
@@ -401,6 +410,9 @@ export class KeystrokeCaptureService {
 
     const normalizedKey = this.normalizeKey(event);
 
+    if (!this.options.captureSpecialKeys && this.isSpecialKey(normalizedKey))
+      return;
+
     // Dispatch keystroke for all keys that pass the filter
     this.dispatchKeystroke(normalizedKey, event);
 
@@ -461,10 +473,13 @@ export class KeystrokeCaptureService {
       `${SERVICE_NAME}: Dispatching key '${key === "\b" ? "Backspace" : key}'`
     );
 
+    // Every handler sees the same capture time
+    const timestamp = this.options.clock.now();
+
     // Loop through every registered handler.
     this.handlers.forEach((handler) => {
       try {
-        handler(key, event);
+        handler(key, event, timestamp);
       } catch (error) {
         console.error(
           `${SERVICE_NAME}: A handler failed to process a keystroke:`,
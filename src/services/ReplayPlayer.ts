@@ -0,0 +1,148 @@
+import { ReplayFrame } from "../models/SessionModel";
+import { Clock, systemClock } from "./components/clock";
+import { ReplaySource, ReplayTimeline } from "./components/sessionReplay";
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+const MIN_SPEED = 0.5;
+const MAX_SPEED = 4;
+const FRAME_INTERVAL = 50; // ms of real time between frames while playing
+
+// Plays a recorded session back against its target text, at a chosen speed
+export class ReplayPlayer {
+  private timeline: ReplayTimeline;
+  private position = 0; // ms into the session
+  private speed = 1;
+  private playing = false;
+  private lastTick = 0; // clock time the position was last moved at
+  private cancelTick: (() => void) | null = null;
+
+  private onFrame?: (frame: ReplayFrame) => void;
+  private onEnd?: () => void;
+
+  constructor(session: ReplaySource, private clock: Clock = systemClock) {
+    this.timeline = new ReplayTimeline(session);
+  }
+
+  public onFrameUpdate(callback: (frame: ReplayFrame) => void): void {
+    this.onFrame = callback;
+  }
+
+  public onReplayEnd(callback: () => void): void {
+    this.onEnd = callback;
+  }
+
+  public getFrame(): ReplayFrame {
+    return this.timeline.frameAt(this.position);
+  }
+
+  public getDuration(): number {
+    return this.timeline.duration;
+  }
+
+  public getKeyTimes(): number[] {
+    return this.timeline.getKeyTimes();
+  }
+
+  public getSpeed(): number {
+    return this.speed;
+  }
+
+  public isPlaying(): boolean {
+    return this.playing;
+  }
+
+  public play(): void {
+    if (this.playing) return;
+
+    // Playing from the end starts over
+    if (this.position >= this.timeline.duration) this.position = 0;
+
+    this.playing = true;
+    this.lastTick = this.clock.now();
+    this.scheduleTick();
+    this.notifyFrame();
+  }
+
+  public pause(): void {
+    if (!this.playing) return;
+
+    this.movePosition();
+    this.playing = false;
+    this.clearTick();
+    this.notifyFrame();
+  }
+
+  // Jumps to a point of the session, playing on from there if it was playing
+  public seek(time: number): void {
+    this.position = Math.min(Math.max(0, time), this.timeline.duration);
+    this.lastTick = this.clock.now();
+
+    if (this.playing) this.scheduleTick();
+    this.notifyFrame();
+  }
+
+  public setSpeed(speed: number): void {
+    if (!(speed >= MIN_SPEED && speed <= MAX_SPEED))
+      throw new Error(
+        `ReplayPlayer: speed must be between ${MIN_SPEED} and ${MAX_SPEED}`
+      );
+
+    // Time played so far counts at the old speed
+    if (this.playing) this.movePosition();
+    this.speed = speed;
+    if (this.playing) this.scheduleTick();
+  }
+
+  public dispose(): void {
+    this.playing = false;
+    this.clearTick();
+  }
+
+  private tick(): void {
+    this.cancelTick = null;
+    this.movePosition();
+
+    if (this.position >= this.timeline.duration) {
+      this.playing = false;
+      this.notifyFrame();
+      this.onEnd?.();
+      return;
+    }
+
+    this.scheduleTick();
+    this.notifyFrame();
+  }
+
+  private movePosition(): void {
+    const now = this.clock.now();
+    this.position = Math.min(
+      this.position + (now - this.lastTick) * this.speed,
+      this.timeline.duration
+    );
+    this.lastTick = now;
+  }
+
+  // Next frame after the usual interval, or sooner when a key or the end falls due,
+  // so every keystroke shows at its own time
+  private scheduleTick(): void {
+    this.clearTick();
+
+    const nextKey = this.timeline.nextKeyTime(this.position);
+    const until = Math.min(nextKey ?? Infinity, this.timeline.duration);
+    const delay = Math.min(
+      FRAME_INTERVAL,
+      (until - this.position) / this.speed
+    );
+
+    this.cancelTick = this.clock.schedule(() => this.tick(), delay);
+  }
+
+  private clearTick(): void {
+    this.cancelTick?.();
+    this.cancelTick = null;
+  }
+
+  private notifyFrame(): void {
+    this.onFrame?.(this.getFrame());
+  }
+}
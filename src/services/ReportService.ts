@@ -0,0 +1,202 @@
+import { TypingStats } from "../models/TypingModel";
+import { SessionMode, SessionRecord } from "../models/SessionModel";
+
+export interface ReportRow {
+  date: Date | null;
+  mode: SessionMode | null;
+  target: number;
+  stats: TypingStats;
+}
+
+export interface ErrorSummary {
+  character: string;
+  frequency: number;
+  sessions: number; // how many sessions had this error
+  commonMistakes: string[]; // most frequent first
+}
+
+const CSV_HEADER = [
+  "date",
+  "mode",
+  "target",
+  "wpm",
+  "gross_wpm",
+  "words_wpm",
+  "accuracy",
+  "consistency",
+  "corrected_errors",
+  "correct_chars",
+  "incorrect_chars",
+  "extra_chars",
+  "missed_chars",
+];
+
+const TOP_ERROR_PATTERNS = 10;
+
+// Spreadsheet and wiki friendly views over stored sessions
+export class ReportService {
+  public static createRows(records: SessionRecord[]): ReportRow[] {
+    return records.map((record) => ({
+      date: record.session.endTime ?? record.session.startTime,
+      mode: record.mode,
+      target: record.target,
+      stats: record.stats,
+    }));
+  }
+
+  public static toCsv(rows: ReportRow[]): string {
+    const lines = rows.map(({ date, mode, target, stats }) =>
+      [
+        date ? date.toISOString() : "",
+        mode ?? "",
+        target,
+        stats.wpm,
+        stats.grossWPM,
+        stats.wordsWPM,
+        stats.accuracy,
+        stats.consistencyScore,
+        stats.correctedErrors,
+        stats.characterStats.correct,
+        stats.characterStats.incorrect,
+        stats.characterStats.extra,
+        stats.characterStats.missed,
+      ]
+        .map(escapeCsv)
+        .join(",")
+    );
+
+    return [CSV_HEADER.join(","), ...lines].join("\r\n") + "\r\n";
+  }
+
+  // Error patterns merged across rows, most frequent first
+  public static summarizeErrors(rows: ReportRow[]): ErrorSummary[] {
+    const summaries = new Map<
+      string,
+      { frequency: number; sessions: number; mistakes: Map<string, number> }
+    >();
+
+    for (const { stats } of rows)
+      for (const pattern of stats.errorPatterns) {
+        const summary = summaries.get(pattern.character) ?? {
+          frequency: 0,
+          sessions: 0,
+          mistakes: new Map<string, number>(),
+        };
+
+        summary.frequency += pattern.frequency;
+        summary.sessions++;
+        for (const mistake of pattern.commonMistakes)
+          summary.mistakes.set(
+            mistake,
+            (summary.mistakes.get(mistake) ?? 0) + 1
+          );
+
+        summaries.set(pattern.character, summary);
+      }
+
+    return [...summaries.entries()]
+      .map(([character, summary]) => ({
+        character,
+        frequency: summary.frequency,
+        sessions: summary.sessions,
+        commonMistakes: [...summary.mistakes.entries()]
+          .sort((a, b) => b[1] - a[1])
+          .map(([mistake]) => mistake),
+      }))
+      .sort((a, b) => b.frequency - a.frequency);
+  }
+
+  public static toMarkdown(rows: ReportRow[]): string {
+    if (rows.length === 0) return "# Typing report\n\nNo sessions selected.\n";
+
+    const dates = rows
+      .map((row) => row.date)
+      .filter((date): date is Date => date !== null)
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    const metricRow = (
+      label: string,
+      value: (stats: TypingStats) => number,
+      unit = ""
+    ) => {
+      const values = rows.map((row) => value(row.stats));
+      const average = values.reduce((sum, v) => sum + v, 0) / values.length;
+      return `| ${label} | ${round(average)}${unit} | ${Math.max(
+        ...values
+      )}${unit} |`;
+    };
+
+    const lines = [
+      "# Typing report",
+      "",
+      `${rows.length} ${rows.length === 1 ? "session" : "sessions"}` +
+        (dates.length > 0
+          ? ` from ${formatDay(dates[0])} to ${formatDay(
+              dates[dates.length - 1]
+            )}`
+          : ""),
+      "",
+      "| metric | average | best |",
+      "| --- | --- | --- |",
+      metricRow("wpm", (s) => s.wpm),
+      metricRow("accuracy", (s) => s.accuracy, "%"),
+      metricRow("consistency", (s) => s.consistencyScore, "%"),
+      "",
+      "## Most missed characters",
+      "",
+    ];
+
+    const errors = ReportService.summarizeErrors(rows).slice(
+      0,
+      TOP_ERROR_PATTERNS
+    );
+
+    if (errors.length === 0) lines.push("No errors left in any session.");
+    else
+      lines.push(
+        "| expected | times | sessions | typed instead |",
+        "| --- | --- | --- | --- |",
+        ...errors.map(
+          (e) =>
+            `| ${describeChar(e.character)} | ${e.frequency} | ${
+              e.sessions
+            } | ${e.commonMistakes
+              .map((m) => (m === "_DELETED_" ? "(skipped)" : describeChar(m)))
+              .join(", ")} |`
+        )
+      );
+
+    return lines.join("\n") + "\n";
+  }
+}
+
+// Quotes fields that would otherwise break the row
+function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const codePointOf = (char: string) =>
+  `U+${(char.codePointAt(0) ?? 0).toString(16).toUpperCase().padStart(4, "0")}`;
+
+const CHAR_NAMES = new Map([
+  ["", "(missing)"],
+  [" ", "space"],
+  ["\n", "newline"],
+  ["\r", "carriage return"],
+  ["\t", "tab"],
+  ["|", "`\\|`"],
+  ["`", "`` ` ``"],
+]);
+
+// Markdown tables need pipes escaped and whitespace named, a newline would end the row.
+// Other control characters and line separators go by their code point.
+const describeChar = (char: string) =>
+  CHAR_NAMES.get(char) ??
+  (/[\p{Cc}\p{Zl}\p{Zp}]/u.test(char)
+    ? [...char].map(codePointOf).join(" ")
+    : `\`${char}\``);
@@ -0,0 +1,432 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import {
+  SessionMode,
+  SessionPage,
+  SessionQuery,
+  SessionRecord,
+} from "../models/SessionModel";
+
+// What the index keeps per session, enough to filter and page without reading segments
+interface IndexEntry {
+  id: string;
+  segment: string;
+  endTime: string | null;
+  mode: SessionMode | null;
+}
+
+interface StoreIndex {
+  version: number;
+  activeSegment: string;
+  entries: IndexEntry[];
+  garbage: number; // segment lines no longer referenced by the index
+}
+
+export interface CompactionOptions {
+  retentionDays?: number; // drop sessions older than this, 0 or unset keeps everything
+}
+
+const STORE_VERSION = 1;
+const INDEX_FILE = "index.json";
+const LOCK_DIRECTORY = "lock";
+const LOCK_RETRY_MS = 20;
+const LOCK_STALE_MS = 30000; // a lock not refreshed for this long was left by a closed window
+const SEGMENT_SIZE = 100; // lines per segment before a new one is started
+const COMPACTION_RATIO = 0.25; // compact once this share of stored lines is garbage
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const segmentName = (n: number) =>
+  `segment-${String(n).padStart(6, "0")}.jsonl`;
+const segmentNumber = (name: string) => Number(name.match(/\d+/)?.[0] ?? 0);
+
+// Session records stored as JSON lines under globalStorageUri.
+// Saves rewrite only the active segment and the small index, deletes just drop the
+// index entry and leave garbage behind until the next compaction.
+// Every VS Code window shares the directory, so each operation holds a lock across
+// windows, reads the index again and replaces files whole, never writing in place.
+export class SessionStore {
+  private readonly root: vscode.Uri;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(storageUri: vscode.Uri) {
+    this.root = vscode.Uri.joinPath(storageUri, "sessions");
+  }
+
+  public append(...records: SessionRecord[]): Promise<void> {
+    return this.enqueue(async () => {
+      const index = await this.loadIndex();
+
+      for (const record of records) {
+        // Saving an id again replaces the old record
+        const existing = index.entries.findIndex(
+          (e) => e.id === record.session.id
+        );
+        if (existing >= 0) {
+          index.entries.splice(existing, 1);
+          index.garbage++;
+        }
+      }
+
+      let lines = await this.readSegmentLines(index.activeSegment);
+
+      for (const record of records) {
+        if (lines.length >= SEGMENT_SIZE) {
+          await this.writeSegment(index.activeSegment, lines);
+          index.activeSegment = segmentName(
+            segmentNumber(index.activeSegment) + 1
+          );
+          lines = [];
+        }
+
+        lines.push(JSON.stringify(record));
+        index.entries.push(toIndexEntry(record, index.activeSegment));
+      }
+
+      await this.writeSegment(index.activeSegment, lines);
+      await this.saveIndex(index);
+    });
+  }
+
+  public getSessions(query: SessionQuery = {}): Promise<SessionPage> {
+    return this.enqueue(async () => {
+      const index = await this.loadIndex();
+      const since = query.since?.getTime();
+      const ids = query.ids && new Set(query.ids);
+
+      const matching = index.entries
+        .filter(
+          (e) =>
+            (ids === undefined || ids.has(e.id)) &&
+            (query.mode === undefined || e.mode === query.mode) &&
+            (since === undefined ||
+              (e.endTime !== null && Date.parse(e.endTime) >= since))
+        )
+        .sort((a, b) => endTimeOf(b) - endTimeOf(a));
+
+      const offset = Math.max(0, query.offset ?? 0);
+      const page = matching.slice(
+        offset,
+        query.limit === undefined ? undefined : offset + query.limit
+      );
+
+      const records = await this.readRecords(page);
+      return { records, total: matching.length };
+    });
+  }
+
+  public get(id: string): Promise<SessionRecord | undefined> {
+    return this.enqueue(async () => {
+      const index = await this.loadIndex();
+      const entry = index.entries.find((e) => e.id === id);
+      if (!entry) return undefined;
+
+      const [record] = await this.readRecords([entry]);
+      return record;
+    });
+  }
+
+  public delete(id: string): Promise<boolean> {
+    return this.enqueue(async () => {
+      const index = await this.loadIndex();
+      const position = index.entries.findIndex((e) => e.id === id);
+      if (position < 0) return false;
+
+      index.entries.splice(position, 1);
+      index.garbage++;
+
+      if (
+        index.garbage >
+        (index.entries.length + index.garbage) * COMPACTION_RATIO
+      )
+        await this.rewrite(index, this.readBySegment(index.entries));
+      else await this.saveIndex(index);
+
+      return true;
+    });
+  }
+
+  // Drops expired sessions and rewrites the segments without garbage. Returns how many expired.
+  public compact(options: CompactionOptions = {}): Promise<number> {
+    return this.enqueue(async () => {
+      const index = await this.loadIndex();
+      const cutoff = options.retentionDays
+        ? Date.now() - options.retentionDays * DAY_MS
+        : undefined;
+
+      const kept = index.entries.filter(
+        (e) =>
+          cutoff === undefined ||
+          e.endTime === null ||
+          Date.parse(e.endTime) >= cutoff
+      );
+      const expired = index.entries.length - kept.length;
+
+      if (expired > 0 || index.garbage > 0)
+        await this.rewrite(index, this.readBySegment(kept));
+
+      return expired;
+    });
+  }
+
+  // The old records stay until the new ones are written and the index points at them
+  public replace(records: SessionRecord[]): Promise<void> {
+    return this.enqueue(async () =>
+      this.rewrite(await this.loadIndex(), [records])
+    );
+  }
+
+  // Leaves the directory in place, it holds the lock
+  public clear(): Promise<void> {
+    return this.enqueue(async () => this.rewrite(await this.loadIndex(), []));
+  }
+
+  // Read from the index alone, no segment is opened
+  public ids(): Promise<string[]> {
+    return this.enqueue(async () =>
+      (await this.loadIndex()).entries.map((e) => e.id)
+    );
+  }
+
+  // Segments & Index //
+
+  // Writes the records into fresh segments as the batches come in, then points the index
+  // at them. Old segments are only removed once the new index is saved.
+  private async rewrite(
+    index: StoreIndex,
+    batches: AsyncIterable<SessionRecord[]> | Iterable<SessionRecord[]>
+  ): Promise<void> {
+    let next = segmentNumber(index.activeSegment) + 1;
+    let segment = segmentName(next++);
+    let lines: string[] = [];
+    const entries: IndexEntry[] = [];
+
+    for await (const records of batches)
+      for (const record of records) {
+        if (lines.length >= SEGMENT_SIZE) {
+          await this.writeSegment(segment, lines);
+          segment = segmentName(next++);
+          lines = [];
+        }
+
+        lines.push(JSON.stringify(record));
+        entries.push(toIndexEntry(record, segment));
+      }
+
+    if (lines.length > 0) await this.writeSegment(segment, lines);
+
+    const rewritten: StoreIndex = {
+      version: STORE_VERSION,
+      activeSegment: entries[entries.length - 1]?.segment ?? segmentName(next),
+      entries,
+      garbage: 0,
+    };
+    await this.saveIndex(rewritten);
+
+    // Other windows wait for the lock, so an unlisted segment is a leftover, never their work
+    const live = new Set(entries.map((e) => e.segment));
+    for (const segment of await this.listSegments())
+      if (!live.has(segment))
+        await vscode.workspace.fs.delete(
+          vscode.Uri.joinPath(this.root, segment)
+        );
+  }
+
+  // One segment in memory at a time, however many records are stored
+  private async *readBySegment(
+    entries: IndexEntry[]
+  ): AsyncGenerator<SessionRecord[]> {
+    const bySegment = new Map<string, IndexEntry[]>();
+    for (const entry of entries) {
+      const group = bySegment.get(entry.segment);
+      if (group) group.push(entry);
+      else bySegment.set(entry.segment, [entry]);
+    }
+
+    for (const segmentEntries of bySegment.values())
+      yield await this.readRecords(segmentEntries);
+  }
+
+  private async listSegments(): Promise<string[]> {
+    const files = await vscode.workspace.fs.readDirectory(this.root);
+    return files
+      .map(([name]) => name)
+      .filter((name) => name.endsWith(".jsonl"))
+      .sort();
+  }
+
+  // Records come back in the order of the given entries
+  private async readRecords(entries: IndexEntry[]): Promise<SessionRecord[]> {
+    const bySegment = new Map<string, Map<string, SessionRecord>>();
+
+    for (const segment of new Set(entries.map((e) => e.segment))) {
+      const records = new Map<string, SessionRecord>();
+      // Later lines win, an id saved twice in one segment keeps its newest record
+      for (const line of await this.readSegmentLines(segment)) {
+        const record = JSON.parse(line) as SessionRecord;
+        records.set(record.session.id, record);
+      }
+      bySegment.set(segment, records);
+    }
+
+    return entries.flatMap((e) => bySegment.get(e.segment)?.get(e.id) ?? []);
+  }
+
+  private async readSegmentLines(segment: string): Promise<string[]> {
+    const text = await this.readFile(segment);
+    return text === undefined
+      ? []
+      : text.split("\n").filter((line) => line.trim() !== "");
+  }
+
+  private async writeSegment(segment: string, lines: string[]): Promise<void> {
+    await this.writeFile(segment, lines.map((line) => line + "\n").join(""));
+  }
+
+  // Not cached, another window may have saved since the last read
+  private async loadIndex(): Promise<StoreIndex> {
+    const text = await this.readFile(INDEX_FILE);
+
+    if (text === undefined)
+      return {
+        version: STORE_VERSION,
+        activeSegment: segmentName(1),
+        entries: [],
+        garbage: 0,
+      };
+
+    try {
+      return JSON.parse(text) as StoreIndex;
+    } catch (error) {
+      // Segments are the source of truth, a broken index can be rebuilt from them
+      console.warn("Session index is unreadable, rebuilding it:", error);
+      return this.rebuildIndex();
+    }
+  }
+
+  private async saveIndex(index: StoreIndex): Promise<void> {
+    await this.writeFile(INDEX_FILE, JSON.stringify(index));
+  }
+
+  private async rebuildIndex(): Promise<StoreIndex> {
+    const segments = await this.listSegments();
+
+    const entries = new Map<string, IndexEntry>();
+    for (const segment of segments)
+      for (const line of await this.readSegmentLines(segment)) {
+        const record = JSON.parse(line) as SessionRecord;
+        entries.set(record.session.id, toIndexEntry(record, segment));
+      }
+
+    const index: StoreIndex = {
+      version: STORE_VERSION,
+      activeSegment: segments[segments.length - 1] ?? segmentName(1),
+      entries: [...entries.values()],
+      garbage: 0,
+    };
+    await this.saveIndex(index);
+    return index;
+  }
+
+  // undefined when the file does not exist yet
+  private async readFile(name: string): Promise<string | undefined> {
+    try {
+      const bytes = await vscode.workspace.fs.readFile(
+        vscode.Uri.joinPath(this.root, name)
+      );
+      return decoder.decode(bytes);
+    } catch (error) {
+      if (isFileNotFound(error)) return undefined;
+      throw error;
+    }
+  }
+
+  // Written to a temporary file and renamed over the old one, so a reader in another
+  // window sees either the old or the new file, never half of one
+  private async writeFile(name: string, text: string): Promise<void> {
+    await vscode.workspace.fs.createDirectory(this.root);
+
+    const temporary = vscode.Uri.joinPath(
+      this.root,
+      `${name}.${crypto.randomUUID()}.tmp`
+    );
+    await vscode.workspace.fs.writeFile(temporary, encoder.encode(text));
+    await vscode.workspace.fs.rename(
+      temporary,
+      vscode.Uri.joinPath(this.root, name),
+      { overwrite: true }
+    );
+  }
+
+  // Every operation reads and writes the index, so they run one at a time, here and across windows
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(() => this.withLock(task));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Creating a directory is atomic across processes, which vscode.workspace.fs does not offer
+  private async withLock<T>(task: () => Promise<T>): Promise<T> {
+    const lock = vscode.Uri.joinPath(this.root, LOCK_DIRECTORY).fsPath;
+    await fs.promises.mkdir(this.root.fsPath, { recursive: true });
+
+    for (;;) {
+      try {
+        await fs.promises.mkdir(lock);
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+        await this.waitForLock(lock);
+      }
+    }
+
+    // Refreshed while held, so a long compaction is not taken for a closed window
+    const refresh = setInterval(() => {
+      const now = new Date();
+      fs.promises.utimes(lock, now, now).catch(() => undefined);
+    }, LOCK_STALE_MS / 3);
+
+    try {
+      return await task();
+    } finally {
+      clearInterval(refresh);
+      await fs.promises.rm(lock, { recursive: true, force: true });
+    }
+  }
+
+  private async waitForLock(lock: string): Promise<void> {
+    try {
+      const { mtimeMs } = await fs.promises.stat(lock);
+      if (Date.now() - mtimeMs > LOCK_STALE_MS) {
+        console.warn("Removing a stale session store lock");
+        await fs.promises.rm(lock, { recursive: true, force: true });
+        return;
+      }
+    } catch (error) {
+      // Released in the meantime
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+function toIndexEntry(record: SessionRecord, segment: string): IndexEntry {
+  const { endTime } = record.session;
+  return {
+    id: record.session.id,
+    segment,
+    endTime: endTime ? new Date(endTime).toISOString() : null,
+    mode: record.mode,
+  };
+}
+
+const isFileNotFound = (error: unknown) =>
+  error instanceof vscode.FileSystemError && error.code === "FileNotFound";
+
+// Sessions without an end time sort last
+const endTimeOf = (entry: IndexEntry) =>
+  entry.endTime === null ? -Infinity : Date.parse(entry.endTime);
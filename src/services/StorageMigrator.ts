@@ -0,0 +1,127 @@
+import * as vscode from "vscode";
+import { StorageService } from "./StorageService";
+
+export interface StorageMigration {
+  version: number; // schema version once this step has run
+  description: string;
+  migrate: (
+    storage: StorageService,
+    context: vscode.ExtensionContext
+  ) => Promise<void>;
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  applied: string[]; // descriptions of the steps that ran
+  backupUri?: vscode.Uri;
+}
+
+// Ordered oldest first. New steps go at the end with the next version number.
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: "Seed first-run defaults and repair invalid stored values",
+    migrate: async (storage, context) => {
+      await storage.initializeDefaults();
+      await context.globalState.update("isFirstRun", undefined); // replaced by the schema version
+    },
+  },
+  {
+    version: 2,
+    description: "Move sessions from globalState into the session store",
+    migrate: async (storage) => {
+      await storage.migrateLegacySessions();
+    },
+  },
+  {
+    version: 3,
+    description: "Move settings from globalState into the typesh configuration",
+    migrate: async (storage) => {
+      await storage.migrateLegacySettings();
+    },
+  },
+];
+
+const encoder = new TextEncoder();
+
+// Brings globalState up to the latest schema version, one step at a time
+export class StorageMigrator {
+  public static readonly VERSION_KEY = "storageSchemaVersion";
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private storage: StorageService,
+    private migrations: StorageMigration[] = STORAGE_MIGRATIONS
+  ) {}
+
+  public getSchemaVersion(): number {
+    return this.context.globalState.get<number>(StorageMigrator.VERSION_KEY, 0);
+  }
+
+  public async run(): Promise<MigrationResult> {
+    const from = this.getSchemaVersion();
+    const pending = this.migrations
+      .filter((m) => m.version > from)
+      .sort((a, b) => a.version - b.version);
+
+    if (pending.length === 0) return { from, to: from, applied: [] };
+
+    const backupUri = await this.backup(from);
+    const applied: string[] = [];
+
+    for (const migration of pending) {
+      await migration.migrate(this.storage, this.context);
+
+      // Saved after every step, so a failure resumes from the step that failed
+      await this.context.globalState.update(
+        StorageMigrator.VERSION_KEY,
+        migration.version
+      );
+      applied.push(migration.description);
+    }
+
+    return {
+      from,
+      to: pending[pending.length - 1].version,
+      applied,
+      backupUri,
+    };
+  }
+
+  // Copies every globalState value to a JSON file before anything is changed
+  private async backup(version: number): Promise<vscode.Uri | undefined> {
+    const keys = this.context.globalState
+      .keys()
+      .filter((key) => key !== StorageMigrator.VERSION_KEY);
+
+    if (keys.length === 0) return undefined; // first run, nothing to keep
+
+    const data = Object.fromEntries(
+      keys.map((key) => [key, this.context.globalState.get(key)])
+    );
+
+    const backupDir = vscode.Uri.joinPath(
+      this.context.globalStorageUri,
+      "backups"
+    );
+    const backupUri = vscode.Uri.joinPath(
+      backupDir,
+      `storage-v${version}-${Date.now()}.json`
+    );
+
+    await vscode.workspace.fs.createDirectory(backupDir);
+    await vscode.workspace.fs.writeFile(
+      backupUri,
+      encoder.encode(
+        JSON.stringify(
+          { schemaVersion: version, createdAt: new Date(), data },
+          null,
+          2
+        )
+      )
+    );
+
+    return backupUri;
+  }
+}
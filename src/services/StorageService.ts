@@ -2,60 +2,229 @@ import * as vscode from "vscode";
 import {
   CustomParagraph,
   ExtensionSettings,
+  Keystroke,
   TypingSession,
+  TypingStats,
 } from "../models/TypingModel";
+import {
+  SessionPage,
+  SessionQuery,
+  SessionRecord,
+  SessionSummary,
+} from "../models/SessionModel";
+import { toSessionSummary } from "./components/sessionSummary";
+import { SessionStore } from "./SessionStore";
+import { TypingAnalyzer } from "./TypingAnalyzer";
+
+// Configuration keys under the typesh section, in the order getSettings reads them
+const SETTINGS_KEYS: (keyof ExtensionSettings)[] = [
+  "defaultTimer",
+  "showRealTimeStats",
+  "theme",
+  "historyRetentionDays",
+  "syncScope",
+];
+
+const READ_PAGE_SIZE = 100; // records read into memory at once when going through all of them
+
+// Local bookkeeping that tells sync what changed here, never synced itself
+export interface SyncMetadata {
+  deletedParagraphs: Record<string, number>; // id to deletion time
+  deletedSessions: Record<string, number>;
+}
 
 export class StorageService {
-  private static readonly KEYS = {
+  public static readonly KEYS = {
+    // Sessions now live in SessionStore, these keys are only read to migrate them
     SESSIONS: "typingSessions",
+    SESSION_RECORDS: "sessionRecords",
     PARAGRAPHS: "customParagraphs",
-    SETTINGS: "extensionSettings",
+    SETTINGS: "extensionSettings", // settings moved to the configuration, only read to migrate them
     DEFAULT_PARAGRAPHS: "defaultParagraphs",
+    SYNC_METADATA: "syncMetadata",
+    ANALYZER_VERSION: "sessionsAnalyzerVersion", // analyzer the stored stats were last brought up to
   } as const;
 
-  constructor(private context: vscode.ExtensionContext) {}
+  public static readonly CONFIGURATION_SECTION = "typesh";
+
+  private sessionStore: SessionStore;
+  private onChange?: () => void;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private getConfiguration = () =>
+      vscode.workspace.getConfiguration(StorageService.CONFIGURATION_SECTION)
+  ) {
+    this.sessionStore = new SessionStore(context.globalStorageUri);
+  }
+
+  // Called after any local write to sessions, paragraphs or settings
+  public onDataChange(callback: () => void): void {
+    this.onChange = callback;
+  }
 
   // Session Management //
 
-  public async saveSession(session: TypingSession): Promise<void> {
+  // Stats are computed once here and stored with the session, so history never re-runs the analyzer
+  public async saveSession(
+    session: TypingSession,
+    stats?: TypingStats
+  ): Promise<SessionRecord> {
+    const [record] = await this.saveSessions([{ session, stats }]);
+    return record;
+  }
+
+  // Batch save, one write to the store however many sessions there are
+  public async saveSessions(
+    sessions: {
+      session: TypingSession;
+      stats?: TypingStats;
+      summaryOnly?: boolean;
+    }[]
+  ): Promise<SessionRecord[]> {
     try {
-      this.validateSession(session);
+      const records = await this.createRecords(sessions);
 
-      const sessions = await this.getAllSessions();
-      sessions.push(session);
+      await this.sessionStore.append(...records);
+      await this.recordChange();
 
-      // Keep only last 100 session in storage
-      const limitedSessions = sessions.slice(-100);
-      await this.context.globalState.update(
-        StorageService.KEYS.SESSIONS,
-        limitedSessions
-      );
+      return records;
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to save typing session: ${error}`);
       throw error;
     }
   }
 
-  public async getAllSessions(): Promise<TypingSession[]> {
+  // Swaps every saved session for the given ones in one step, nothing is removed
+  // unless all of them were valid and written
+  public async replaceSessions(
+    sessions: {
+      session: TypingSession;
+      stats?: TypingStats;
+      summaryOnly?: boolean;
+    }[]
+  ): Promise<SessionRecord[]> {
     try {
-      const sessions = this.context.globalState.get(
-        StorageService.KEYS.SESSIONS,
-        []
+      const records = await this.createRecords(sessions);
+      const previousIds = await this.sessionStore.ids();
+
+      await this.sessionStore.replace(records);
+
+      const kept = new Set(records.map((r) => r.session.id));
+      const deletedAt = Date.now();
+      await this.recordChange((metadata) =>
+        previousIds
+          .filter((id) => !kept.has(id))
+          .forEach((id) => (metadata.deletedSessions[id] = deletedAt))
       );
-      return Array.isArray(sessions) ? sessions : [];
+
+      return records;
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to replace typing sessions: ${error}`
+      );
+      throw error;
+    }
+  }
+
+  // Summary-only sessions have nothing to analyze and must come with their stats
+  private async createRecords(
+    sessions: {
+      session: TypingSession;
+      stats?: TypingStats;
+      summaryOnly?: boolean;
+    }[]
+  ): Promise<SessionRecord[]> {
+    sessions.forEach(({ session, stats, summaryOnly }) => {
+      this.validateSession(session);
+      if (summaryOnly && !stats)
+        throw new Error("Summary-only sessions need their stats");
+    });
+
+    const categories = await this.getParagraphCategories();
+    return sessions.map(({ session, stats, summaryOnly }) =>
+      createSessionRecord(session, categories, stats, summaryOnly)
+    );
+  }
+
+  public async clearSessions(): Promise<void> {
+    try {
+      const { records } = await this.sessionStore.getSessions({});
+      await this.sessionStore.clear();
+
+      const deletedAt = Date.now();
+      await this.recordChange((metadata) =>
+        records.forEach(
+          ({ session }) => (metadata.deletedSessions[session.id] = deletedAt)
+        )
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to clear sessions: ${error}`);
+      throw error;
+    }
+  }
+
+  public async getSessions(query: SessionQuery = {}): Promise<SessionPage> {
+    try {
+      const page = await this.sessionStore.getSessions(query);
+      return { ...page, records: page.records.map(reviveRecordDates) };
     } catch (error) {
       vscode.window.showErrorMessage(
         `Failed to retrieve typing sessions:${error} `
       );
+      return { records: [], total: 0 };
+    }
+  }
+
+  public async getSessionIds(): Promise<string[]> {
+    try {
+      return await this.sessionStore.ids();
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to retrieve typing sessions: ${error}`
+      );
       return [];
     }
   }
 
+  // Every session without its text and keystrokes, read a page of records at a time
+  public async getSessionSummaries(): Promise<SessionSummary[]> {
+    const summaries: SessionSummary[] = [];
+    let offset = 0;
+    let total: number;
+
+    do {
+      const page = await this.sessionStore.getSessions({
+        offset,
+        limit: READ_PAGE_SIZE,
+      });
+      summaries.push(
+        ...page.records.map((record) =>
+          toSessionSummary(reviveRecordDates(record))
+        )
+      );
+      total = page.total;
+      offset += READ_PAGE_SIZE;
+    } while (offset < total);
+
+    return summaries;
+  }
+
+  public async getSessionRecords(): Promise<SessionRecord[]> {
+    const page = await this.getSessions();
+    return page.records;
+  }
+
+  public async getAllSessions(): Promise<TypingSession[]> {
+    const records = await this.getSessionRecords();
+    return records.map((record) => record.session);
+  }
+
   public async getSessionById(id: string): Promise<TypingSession | undefined> {
     try {
       this.validateSessionId(id);
-      const sessions = await this.getAllSessions();
-      return sessions.find((s) => s.id === id);
+      const record = await this.sessionStore.get(id);
+      return record ? reviveSessionDates(record.session) : undefined;
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to retrieve session: ${error}`);
       return undefined;
@@ -66,35 +235,182 @@ export class StorageService {
     try {
       this.validateSessionId(id);
 
-      const sessions = await this.getAllSessions();
-      const initialLength = sessions.length;
+      const deleted = await this.sessionStore.delete(id); // false when no session has this id
+      if (deleted)
+        await this.recordChange(
+          (metadata) => (metadata.deletedSessions[id] = Date.now())
+        );
+
+      return deleted;
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to delete session: ${error}`);
+      return false;
+    }
+  }
+
+  // Applies the retention setting and clears out deleted sessions. Returns how many expired.
+  public async compactSessions(): Promise<number> {
+    try {
+      const settings = await this.getSettings();
+      return await this.sessionStore.compact({
+        retentionDays: settings.historyRetentionDays,
+      });
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to compact typing sessions: ${error}`
+      );
+      return 0;
+    }
+  }
+
+  // Brings stats from an older analyzer version up to date and saves them, a page at a time.
+  // Runs once per analyzer version, so reads never analyze. Returns how many were updated.
+  public async reanalyzeSessions(): Promise<number> {
+    const versionKey = StorageService.KEYS.ANALYZER_VERSION;
+    if (this.context.globalState.get(versionKey) === TypingAnalyzer.VERSION)
+      return 0;
+
+    try {
+      let reanalyzed = 0;
+      let offset = 0;
+      let total: number;
+
+      do {
+        const page = await this.sessionStore.getSessions({
+          offset,
+          limit: READ_PAGE_SIZE,
+        });
+        total = page.total;
+        offset += READ_PAGE_SIZE;
+
+        const updated = page.records
+          .map(withCurrentStats)
+          .filter((record, i) => record !== page.records[i]);
+        if (updated.length > 0) await this.sessionStore.append(...updated);
+        reanalyzed += updated.length;
+      } while (offset < total);
+
+      await this.context.globalState.update(versionKey, TypingAnalyzer.VERSION);
+      return reanalyzed;
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to update typing session stats: ${error}`
+      );
+      return 0;
+    }
+  }
+
+  // One-time move of sessions kept in globalState into the session store.
+  // Raw sessions from before records existed are analyzed on the way; any that
+  // cannot be analyzed stay under the legacy key. Returns how many moved.
+  public async migrateLegacySessions(): Promise<number> {
+    try {
+      const storedRecords = this.context.globalState.get<unknown>(
+        StorageService.KEYS.SESSION_RECORDS
+      );
+      const legacy = this.context.globalState.get<unknown>(
+        StorageService.KEYS.SESSIONS
+      );
 
-      const filteredSessions = sessions.filter((s) => s.id !== id);
+      const records: SessionRecord[] = Array.isArray(storedRecords)
+        ? storedRecords
+        : [];
+      const failed: unknown[] = [];
+
+      if (Array.isArray(legacy) && legacy.length > 0) {
+        const categories = await this.getParagraphCategories();
+
+        for (const stored of legacy) {
+          try {
+            this.validateSession(stored);
+            records.push(
+              createSessionRecord(reviveSessionDates(stored), categories)
+            );
+          } catch (error) {
+            console.warn("Could not migrate typing session:", error);
+            failed.push(stored);
+          }
+        }
+      }
+
+      if (records.length === 0) return 0;
 
-      if (filteredSessions.length === initialLength) return false; // Session with the ID provided was not found and deleted
+      await this.sessionStore.append(...records);
 
+      // Only cleared once the store has the sessions
+      await this.context.globalState.update(
+        StorageService.KEYS.SESSION_RECORDS,
+        undefined
+      );
       await this.context.globalState.update(
         StorageService.KEYS.SESSIONS,
-        filteredSessions
+        failed.length > 0 ? failed : undefined
       );
 
-      return true;
+      return records.length;
     } catch (error) {
-      vscode.window.showErrorMessage(`Failed to delete session: ${error}`);
-      return false;
+      vscode.window.showErrorMessage(
+        `Failed to migrate typing sessions: ${error}`
+      );
+      throw error;
+    }
+  }
+
+  // Records that came in through sync already have their stats
+  public async saveSyncedRecords(records: SessionRecord[]): Promise<void> {
+    try {
+      records.forEach(({ session }) => this.validateSession(session));
+
+      await this.sessionStore.append(...records.map(withCurrentStats));
+      await this.recordChange();
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to save synced sessions: ${error}`
+      );
+      throw error;
     }
   }
 
+  private async getParagraphCategories(): Promise<Map<string, string>> {
+    const paragraphs = await this.getAllParagraphs();
+    const categories = new Map<string, string>();
+    for (const p of paragraphs)
+      if (p.category) categories.set(p.id, p.category);
+    return categories;
+  }
+
   private validateSessionId(id: string): void {
     if (!id || typeof id !== "string" || id.trim() === "")
       throw new Error("Session ID must be non-empty string");
   }
 
-  private validateSession(session: TypingSession): void {
+  // The whole shape is checked, history, heatmap and replay read every field
+  public validateSession(session: TypingSession): void {
     if (!session) throw new Error("Session cannot be null or undefined");
 
     if (!session.id || typeof session.id !== "string")
       throw new Error("Session must have valid ID");
+
+    if (
+      typeof session.targetText !== "string" ||
+      typeof session.userInput !== "string"
+    )
+      throw new Error("Session must have its target text and input");
+
+    if (
+      !Array.isArray(session.keystrokes) ||
+      !session.keystrokes.every(isKeystroke)
+    )
+      throw new Error("Session must have valid keystrokes");
+
+    if (
+      !Number.isFinite(session.timerDuration) ||
+      typeof session.isCompleted !== "boolean"
+    )
+      throw new Error("Session must have a timer duration and completion");
+
+    if (!isSessionTime(session.startTime) || !isSessionTime(session.endTime))
+      throw new Error("Session times must be dates or null");
   }
 
   // Paragraph management //
@@ -111,6 +427,13 @@ export class StorageService {
     }
   }
 
+  // Built-in paragraphs first, followed by the user's own
+  public async getAllParagraphs(): Promise<CustomParagraph[]> {
+    const defaultParagraphs = await this.getDefaultParagraphs();
+    const customParagraphs = await this.getCustomParagraphs();
+    return [...defaultParagraphs, ...customParagraphs];
+  }
+
   public async saveCustomParagraph(paragraph: CustomParagraph): Promise<void> {
     try {
       if (!this.validateParagraph(paragraph)) {
@@ -119,22 +442,55 @@ export class StorageService {
 
       const paragraphs = await this.getCustomParagraphs();
       const existingIndex = paragraphs.findIndex((p) => p.id === paragraph.id);
+      const stamped = { ...paragraph, updatedAt: new Date() };
 
       if (existingIndex >= 0) {
-        paragraphs[existingIndex] = paragraph; // Update existing
+        paragraphs[existingIndex] = stamped; // Update existing
       } else {
-        paragraphs.push(paragraph); // Add new
+        paragraphs.push(stamped); // Add new
       }
       await this.context.globalState.update(
         StorageService.KEYS.PARAGRAPHS,
         paragraphs
       );
+      await this.recordChange(
+        (metadata) => delete metadata.deletedParagraphs[paragraph.id]
+      );
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to save paragraph: ${error}`);
       throw error;
     }
   }
 
+  // Swaps out every custom paragraph at once, used by import and sync
+  public async replaceCustomParagraphs(
+    paragraphs: CustomParagraph[]
+  ): Promise<void> {
+    try {
+      if (!paragraphs.every((p) => this.validateParagraph(p)))
+        throw new Error("Invalid paragraph data");
+
+      const kept = new Set(paragraphs.map((p) => p.id));
+      const removed = (await this.getCustomParagraphs()).filter(
+        (p) => !kept.has(p.id)
+      );
+
+      await this.context.globalState.update(
+        StorageService.KEYS.PARAGRAPHS,
+        paragraphs
+      );
+
+      const deletedAt = Date.now();
+      await this.recordChange((metadata) => {
+        removed.forEach((p) => (metadata.deletedParagraphs[p.id] = deletedAt));
+        kept.forEach((id) => delete metadata.deletedParagraphs[id]);
+      });
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to save paragraphs: ${error}`);
+      throw error;
+    }
+  }
+
   public async deleteCustomParagraph(id: string): Promise<boolean> {
     try {
       if (!id || typeof id !== "string" || id.trim() === "")
@@ -151,6 +507,9 @@ export class StorageService {
         StorageService.KEYS.PARAGRAPHS,
         filteredParagraphs
       );
+      await this.recordChange(
+        (metadata) => (metadata.deletedParagraphs[id] = Date.now())
+      );
 
       return true;
     } catch (error) {
@@ -159,7 +518,7 @@ export class StorageService {
     }
   }
 
-  private validateParagraph(paragraph: any): paragraph is CustomParagraph {
+  public validateParagraph(paragraph: any): paragraph is CustomParagraph {
     if (!paragraph || typeof paragraph !== "object") {
       return false;
     }
@@ -187,6 +546,9 @@ export class StorageService {
   }
 
   // Settings Management //
+  // Settings are VS Code configuration under the typesh section, so they can be
+  // edited in the Settings UI and overridden per workspace
+
   public async saveSettings(settings: ExtensionSettings): Promise<void> {
     try {
       if (!settings) throw new Error("Settings canont be null");
@@ -194,9 +556,9 @@ export class StorageService {
       if (!this.validateSettings(settings))
         throw new Error("Invalid settings provided");
 
-      await this.context.globalState.update(
-        StorageService.KEYS.SETTINGS,
-        settings
+      // Keys missing from settings are cleared, so the result matches what was passed
+      await this.writeSettings(
+        Object.fromEntries(SETTINGS_KEYS.map((key) => [key, settings[key]]))
       );
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to save settings: ${error}`);
@@ -204,26 +566,27 @@ export class StorageService {
     }
   }
 
+  // Values that do not validate fall back one by one, a typo in settings.json keeps the rest
   public async getSettings(): Promise<ExtensionSettings> {
     try {
-      const storedSettings = this.context.globalState.get(
-        StorageService.KEYS.SETTINGS,
-        []
-      );
+      const config = this.getConfiguration();
 
-      if (!storedSettings) return this.createDefaultSettings();
+      return SETTINGS_KEYS.reduce((settings, key) => {
+        let value = config.get<unknown>(key);
+        if (value === undefined) return settings;
 
-      if (this.validateSettings(storedSettings)) return storedSettings;
+        // Settings left the sync scopes once VS Code synced them itself
+        if (key === "syncScope" && Array.isArray(value))
+          value = value.filter((scope) => scope !== "settings");
 
-      console.warn("Storage settings are invalid, using defaults");
-      vscode.window.showErrorMessage(
-        "Setting were corrupted and hae been reset to defaults"
-      );
+        const next = { ...settings, [key]: value };
+        if (this.validateSettings(next)) return next;
 
-      const defaultSettings = this.createDefaultSettings();
-      await this.saveSettings(defaultSettings);
-
-      return defaultSettings;
+        console.warn(
+          `Invalid ${StorageService.CONFIGURATION_SECTION}.${key} setting, using the default`
+        );
+        return settings;
+      }, this.createDefaultSettings());
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to get settings: ${error}`);
       return this.createDefaultSettings();
@@ -234,11 +597,62 @@ export class StorageService {
     settings: Partial<ExtensionSettings>
   ): Promise<void> {
     const currentSettings = await this.getSettings();
-    const updatedSettings = { ...currentSettings, ...settings };
+    if (!this.validateSettings({ ...currentSettings, ...settings }))
+      throw new Error("Invalid settings provided");
+
+    await this.writeSettings(settings);
+  }
+
+  // Each value is written where it currently comes from, so workspace overrides keep working
+  private async writeSettings(
+    settings: Partial<ExtensionSettings>
+  ): Promise<void> {
+    const config = this.getConfiguration();
+
+    for (const [key, value] of Object.entries(settings)) {
+      const inspected = config.inspect(key);
+      await config.update(
+        key,
+        value,
+        inspected?.workspaceValue !== undefined
+          ? vscode.ConfigurationTarget.Workspace
+          : vscode.ConfigurationTarget.Global
+      );
+    }
+  }
+
+  // One-time move of settings kept in globalState into the configuration. Only values
+  // that differ from the defaults and are not already configured are written.
+  public async migrateLegacySettings(): Promise<void> {
+    const stored = this.context.globalState.get<unknown>(
+      StorageService.KEYS.SETTINGS
+    );
+    if (stored === undefined) return;
+
+    if (stored && typeof stored === "object" && !Array.isArray(stored)) {
+      const values = stored as Record<string, unknown>;
+      const config = this.getConfiguration();
+      const defaults = this.createDefaultSettings();
+
+      const usable = SETTINGS_KEYS.filter(
+        (key) =>
+          values[key] !== undefined &&
+          values[key] !== defaults[key] &&
+          config.inspect(key)?.globalValue === undefined &&
+          this.validateSettings({ ...defaults, [key]: values[key] })
+      );
+
+      for (const key of usable)
+        await config.update(
+          key,
+          values[key],
+          vscode.ConfigurationTarget.Global
+        );
+    }
 
     await this.context.globalState.update(
       StorageService.KEYS.SETTINGS,
-      updatedSettings
+      undefined
     );
   }
 
@@ -250,7 +664,7 @@ export class StorageService {
     };
   }
 
-  private validateSettings(settings: any): settings is ExtensionSettings {
+  public validateSettings(settings: any): settings is ExtensionSettings {
     if (!settings || typeof settings !== "object") {
       return false;
     }
@@ -271,13 +685,33 @@ export class StorageService {
       return false;
     }
 
+    if (
+      settings.syncScope !== undefined &&
+      (!Array.isArray(settings.syncScope) ||
+        !settings.syncScope.every((scope: unknown) =>
+          ["paragraphs", "sessions"].includes(scope as string)
+        ))
+    ) {
+      return false;
+    }
+
+    if (
+      settings.historyRetentionDays !== undefined &&
+      (!Number.isInteger(settings.historyRetentionDays) ||
+        settings.historyRetentionDays < 0)
+    ) {
+      return false;
+    }
+
     return true;
   }
 
+  // Clears the configured values, so the contributed defaults apply again
   public async resetSettings(): Promise<boolean> {
     try {
-      const defaultSettings = this.createDefaultSettings();
-      await this.saveSettings(defaultSettings);
+      await this.writeSettings(
+        Object.fromEntries(SETTINGS_KEYS.map((key) => [key, undefined]))
+      );
 
       vscode.window.showInformationMessage(
         "Settings have been reset to defaults"
@@ -289,36 +723,82 @@ export class StorageService {
     }
   }
 
-  // Initialize default paragraphs (call once on first run)
-  public async initializeDefaultParagraphs(): Promise<boolean> {
-    try {
-      const isFirstRun = this.context.globalState.get("isFirstRun", true);
-
-      if (!isFirstRun) {
-        return false;
-      }
+  // First-run values for every key, and repairs for values that no longer validate.
+  // Runs as a storage migration step, so errors are left to the migrator.
+  public async initializeDefaults(): Promise<void> {
+    const { globalState } = this.context;
 
-      const defaultParagraphs = this.getDefaultParagraphs();
+    const customParagraphs = globalState.get<unknown>(
+      StorageService.KEYS.PARAGRAPHS
+    );
+    await globalState.update(
+      StorageService.KEYS.PARAGRAPHS,
+      Array.isArray(customParagraphs)
+        ? customParagraphs.filter((p) => this.validateParagraph(p))
+        : []
+    );
 
-      await this.context.globalState.update(
+    const defaultParagraphs = globalState.get<unknown>(
+      StorageService.KEYS.DEFAULT_PARAGRAPHS
+    );
+    if (!Array.isArray(defaultParagraphs) || defaultParagraphs.length === 0)
+      await globalState.update(
         StorageService.KEYS.DEFAULT_PARAGRAPHS,
-        defaultParagraphs
+        this.createDefaultParagraphs()
       );
-      await this.context.globalState.update("isFirstRun", false);
+  }
 
-      vscode.window.showInformationMessage(
-        "Default paragraphs initialized successfully"
+  // Sync Bookkeeping //
+
+  public async getSyncMetadata(): Promise<SyncMetadata> {
+    const stored = this.context.globalState.get<Partial<SyncMetadata>>(
+      StorageService.KEYS.SYNC_METADATA
+    );
+    return {
+      deletedParagraphs: { ...stored?.deletedParagraphs },
+      deletedSessions: { ...stored?.deletedSessions },
+    };
+  }
+
+  // Read and written back in one step, so changes recorded in between are not lost
+  public async updateSyncMetadata(
+    update: (metadata: SyncMetadata) => void
+  ): Promise<void> {
+    const metadata = await this.getSyncMetadata();
+    update(metadata);
+    await this.context.globalState.update(
+      StorageService.KEYS.SYNC_METADATA,
+      metadata
+    );
+  }
+
+  // Tracked even while sync is off, so turning it on later still carries deletions
+  private async recordChange(
+    update?: (metadata: SyncMetadata) => void
+  ): Promise<void> {
+    if (update) await this.updateSyncMetadata(update);
+
+    this.onChange?.();
+  }
+
+  public async getDefaultParagraphs(): Promise<CustomParagraph[]> {
+    try {
+      const paragraphs = this.context.globalState.get(
+        StorageService.KEYS.DEFAULT_PARAGRAPHS,
+        []
       );
-      return true;
+      return Array.isArray(paragraphs) && paragraphs.length > 0
+        ? paragraphs
+        : this.createDefaultParagraphs();
     } catch (error) {
       vscode.window.showErrorMessage(
-        `Failed to initialize default paragraphs: ${error}`
+        `Failed to retreive default paragraphs: ${error}`
       );
-      return false;
+      return this.createDefaultParagraphs();
     }
   }
 
-  private getDefaultParagraphs(): CustomParagraph[] {
+  private createDefaultParagraphs(): CustomParagraph[] {
     const now = new Date().toISOString();
     return [
       {
@@ -351,3 +831,71 @@ export class StorageService {
     ];
   }
 }
+
+function createSessionRecord(
+  session: TypingSession,
+  categories: Map<string, string>,
+  stats: TypingStats = TypingAnalyzer.analyzeSession(session),
+  summaryOnly = false
+): SessionRecord {
+  return {
+    session,
+    stats,
+    mode: session.mode ?? null,
+    target: session.timerDuration,
+    paragraphId: session.paragraphId,
+    category: session.paragraphId
+      ? categories.get(session.paragraphId)
+      : undefined,
+    analyzerVersion: TypingAnalyzer.VERSION,
+    ...(summaryOnly && { summaryOnly }),
+  };
+}
+
+// Stored and exported sessions round-trip through JSON, so dates come back as strings
+export function reviveSessionDates(session: TypingSession): TypingSession {
+  return {
+    ...session,
+    startTime: session.startTime ? new Date(session.startTime) : null,
+    endTime: session.endTime ? new Date(session.endTime) : null,
+  };
+}
+
+function isKeystroke(keystroke: Keystroke): boolean {
+  return (
+    typeof keystroke === "object" &&
+    keystroke !== null &&
+    typeof keystroke.key === "string" &&
+    Number.isFinite(keystroke.timestamp) &&
+    Number.isFinite(keystroke.timeSinceLast)
+  );
+}
+
+// Dates, or the strings they became in JSON
+function isSessionTime(time: unknown): boolean {
+  return (
+    time === null ||
+    ((time instanceof Date || typeof time === "string") &&
+      !Number.isNaN(new Date(time).getTime()))
+  );
+}
+
+function reviveRecordDates(record: SessionRecord): SessionRecord {
+  return { ...record, session: reviveSessionDates(record.session) };
+}
+
+// The same record when its stats are current, or when the analyzer cannot handle the
+// session. Then it keeps the stats it has, one bad session must not block the others.
+function withCurrentStats(stored: SessionRecord): SessionRecord {
+  try {
+    const record = reviveRecordDates(stored);
+    const stats = TypingAnalyzer.statsForRecord(record);
+
+    return stats === record.stats
+      ? stored
+      : { ...record, stats, analyzerVersion: TypingAnalyzer.VERSION };
+  } catch (error) {
+    console.warn("Could not reanalyze typing session:", error);
+    return stored;
+  }
+}
@@ -0,0 +1,349 @@
+import * as vscode from "vscode";
+import {
+  CustomParagraph,
+  ExtensionSettings,
+  SyncScope,
+} from "../models/TypingModel";
+import { SessionSummary } from "../models/SessionModel";
+import {
+  fromSessionSummary,
+  toSessionSummary,
+} from "./components/sessionSummary";
+import { Clock, systemClock } from "./components/clock";
+import { StorageService, SyncMetadata } from "./StorageService";
+
+// One synced record. A missing value marks a deletion, so deletes reach other machines too.
+export interface SyncEntry<T> {
+  id: string;
+  updatedAt: number; // epoch ms, the newer entry wins a conflict
+  value?: T;
+}
+
+// globalState keys registered with Settings Sync, one per scope.
+// The typesh.* settings are configuration, VS Code syncs those without help.
+export const SYNC_KEYS: Record<SyncScope, string> = {
+  paragraphs: "sync.paragraphs",
+  sessions: "sync.sessions",
+};
+
+const MAX_SYNCED_SESSIONS = 500; // Settings Sync has size limits, older summaries stay local
+const DELETION_TTL_DAYS = 90; // deletions older than this are forgotten
+const SYNC_DELAY = 2000; // ms, local edits are batched into one sync
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Settings Sync replaces a key wholesale, so synced data lives in its own keys and
+// every sync merges them with the local data before writing both back
+export class SyncService {
+  private running = false;
+  private dirty = false; // something changed while a sync was running
+  private cancelTimer?: () => void;
+  private queue: Promise<unknown> = Promise.resolve();
+  private onRemoteChange?: () => void;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private storage: StorageService,
+    private clock: Clock = systemClock
+  ) {}
+
+  // Called when a sync changed local data, so views can refresh
+  public onRemoteChanges(callback: () => void): void {
+    this.onRemoteChange = callback;
+  }
+
+  // Commands //
+
+  public async configure(): Promise<void> {
+    const settings = await this.storage.getSettings();
+    const current = settings.syncScope ?? [];
+
+    const picked = await vscode.window.showQuickPick(
+      [
+        { label: "Custom paragraphs", scope: "paragraphs" as const },
+        {
+          label: "Session summaries",
+          description: "Stats only, without text or keystrokes",
+          scope: "sessions" as const,
+        },
+      ].map((item) => ({ ...item, picked: current.includes(item.scope) })),
+      {
+        canPickMany: true,
+        placeHolder: "What should Settings Sync carry to your other machines?",
+      }
+    );
+    if (!picked) return;
+
+    try {
+      await this.storage.updateSettings({
+        syncScope: picked.map((item) => item.scope),
+      });
+      await this.sync();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to configure sync: ${error}`);
+    }
+  }
+
+  // Sync //
+
+  // Debounced. A change made while a sync runs may have been read before it happened,
+  // so it is synced again once the running sync is done.
+  public scheduleSync(): void {
+    if (this.running) {
+      this.dirty = true;
+      return;
+    }
+
+    this.cancelTimer?.();
+    this.cancelTimer = this.clock.schedule(() => {
+      this.cancelTimer = undefined;
+      this.sync().catch((error) => console.error("typesh sync failed:", error));
+    }, SYNC_DELAY);
+  }
+
+  // Returns how many local records changed because of remote data
+  public sync(): Promise<number> {
+    const run = this.queue.then(() => this.run());
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  public dispose(): void {
+    this.cancelTimer?.();
+  }
+
+  private async run(): Promise<number> {
+    this.running = true;
+    try {
+      const settings = await this.storage.getSettings();
+      const scope = settings.syncScope ?? [];
+
+      this.context.globalState.setKeysForSync(scope.map((s) => SYNC_KEYS[s]));
+      if (scope.length === 0) return 0;
+
+      // Written last, the data writes below record changes of their own
+      const read = await this.storage.getSyncMetadata();
+      const metadata = await this.storage.getSyncMetadata();
+      let pulled = 0;
+
+      if (scope.includes("paragraphs"))
+        pulled += await this.syncParagraphs(metadata);
+      if (scope.includes("sessions"))
+        pulled += await this.syncSessions(settings, metadata);
+
+      // Deletions recorded while this ran (the user's or the writes above) are kept,
+      // the dirty re-run syncs them
+      await this.storage.updateSyncMetadata((current) => {
+        current.deletedParagraphs = withChangesSince(
+          metadata.deletedParagraphs,
+          read.deletedParagraphs,
+          current.deletedParagraphs
+        );
+        current.deletedSessions = withChangesSince(
+          metadata.deletedSessions,
+          read.deletedSessions,
+          current.deletedSessions
+        );
+      });
+
+      if (pulled > 0) this.onRemoteChange?.();
+      return pulled;
+    } finally {
+      this.running = false;
+
+      // The sync's own writes count too, the next run finds nothing new and stops there
+      if (this.dirty) {
+        this.dirty = false;
+        this.scheduleSync();
+      }
+    }
+  }
+
+  private async syncParagraphs(metadata: SyncMetadata): Promise<number> {
+    const paragraphs = await this.storage.getCustomParagraphs();
+    const localIds = new Set(paragraphs.map((p) => p.id));
+
+    const local: SyncEntry<CustomParagraph>[] = [
+      ...paragraphs.map((value) => ({
+        id: value.id,
+        updatedAt: new Date(value.updatedAt ?? value.dateAdded).getTime() || 0,
+        value,
+      })),
+      ...deletionEntries<CustomParagraph>(metadata.deletedParagraphs, localIds),
+    ];
+    const merged = mergeEntries(
+      local,
+      this.readEntries(SYNC_KEYS.paragraphs, (value) =>
+        this.storage.validateParagraph(value)
+      )
+    );
+
+    const pulled = merged.filter(
+      (e) => !local.includes(e) && (e.value !== undefined || localIds.has(e.id))
+    );
+    if (pulled.length > 0)
+      await this.storage.replaceCustomParagraphs(valuesOf(merged));
+
+    metadata.deletedParagraphs = deletionsOf(merged);
+    await this.context.globalState.update(
+      SYNC_KEYS.paragraphs,
+      withoutExpiredDeletions(merged)
+    );
+
+    return pulled.length;
+  }
+
+  private async syncSessions(
+    settings: ExtensionSettings,
+    metadata: SyncMetadata
+  ): Promise<number> {
+    // Older sessions could never make the cut of the synced value, so only ids are read for them
+    const { records } = await this.storage.getSessions({
+      limit: MAX_SYNCED_SESSIONS,
+    });
+    const localIds = new Set(await this.storage.getSessionIds());
+
+    const local: SyncEntry<SessionSummary>[] = [
+      ...records.map((record) => ({
+        id: record.session.id,
+        updatedAt: endTimeOf(record.session),
+        value: toSessionSummary(record),
+      })),
+      ...deletionEntries<SessionSummary>(metadata.deletedSessions, localIds),
+    ];
+    const merged = mergeEntries(
+      local,
+      this.readEntries(SYNC_KEYS.sessions, isSessionSummary)
+    );
+
+    // Sessions past the retention window were compacted away here, so they are not taken back
+    const cutoff = settings.historyRetentionDays
+      ? Date.now() - settings.historyRetentionDays * DAY_MS
+      : 0;
+    const pulled = merged.filter((e) => !local.includes(e));
+
+    const added = pulled.flatMap((e) =>
+      e.value && !localIds.has(e.id) && e.updatedAt >= cutoff
+        ? [fromSessionSummary(e.value)]
+        : []
+    );
+    const removed = pulled.filter((e) => !e.value && localIds.has(e.id));
+
+    if (added.length > 0) await this.storage.saveSyncedRecords(added);
+    for (const { id } of removed) await this.storage.deleteSessionById(id);
+
+    metadata.deletedSessions = deletionsOf(merged);
+
+    const newest = merged
+      .filter((e) => e.value)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_SYNCED_SESSIONS);
+    await this.context.globalState.update(SYNC_KEYS.sessions, [
+      ...newest,
+      ...withoutExpiredDeletions(merged.filter((e) => !e.value)),
+    ]);
+
+    return added.length + removed.length;
+  }
+
+  // Malformed entries from other machines (or other versions) are dropped
+  private readEntries<T>(
+    key: string,
+    isValue: (value: unknown) => boolean
+  ): SyncEntry<T>[] {
+    const stored = this.context.globalState.get<unknown>(key);
+    if (!Array.isArray(stored)) return [];
+
+    return stored.filter(
+      (entry): entry is SyncEntry<T> =>
+        isObject(entry) &&
+        typeof entry.id === "string" &&
+        entry.id !== "" &&
+        Number.isFinite(entry.updatedAt) &&
+        (entry.value === undefined || isValue(entry.value))
+    );
+  }
+}
+
+// Newer entries win per id. Ties go to the deletion, so every machine settles on the same result.
+export function mergeEntries<T>(
+  local: SyncEntry<T>[],
+  remote: SyncEntry<T>[]
+): SyncEntry<T>[] {
+  const merged = new Map(local.map((entry) => [entry.id, entry]));
+
+  for (const entry of remote) {
+    const current = merged.get(entry.id);
+    if (
+      !current ||
+      entry.updatedAt > current.updatedAt ||
+      (entry.updatedAt === current.updatedAt &&
+        entry.value === undefined &&
+        current.value !== undefined)
+    )
+      merged.set(entry.id, entry);
+  }
+
+  return [...merged.values()];
+}
+
+function deletionEntries<T>(
+  deletions: Record<string, number>,
+  presentIds: Set<string>
+): SyncEntry<T>[] {
+  return Object.entries(deletions)
+    .filter(([id]) => !presentIds.has(id))
+    .map(([id, updatedAt]) => ({ id, updatedAt }));
+}
+
+function deletionsOf<T>(entries: SyncEntry<T>[]): Record<string, number> {
+  return Object.fromEntries(
+    withoutExpiredDeletions(entries.filter((e) => !e.value)).map((e) => [
+      e.id,
+      e.updatedAt,
+    ])
+  );
+}
+
+// What changed from `before` to `after` is applied on top of `synced`. A deletion `synced`
+// already has keeps its time, a removed one (the item was saved again) is dropped.
+function withChangesSince(
+  synced: Record<string, number>,
+  before: Record<string, number>,
+  after: Record<string, number>
+): Record<string, number> {
+  const result = { ...synced };
+  for (const id of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (after[id] === before[id]) continue;
+    if (after[id] === undefined) delete result[id];
+    else result[id] = result[id] ?? after[id];
+  }
+  return result;
+}
+
+function withoutExpiredDeletions<T>(entries: SyncEntry<T>[]): SyncEntry<T>[] {
+  const cutoff = Date.now() - DELETION_TTL_DAYS * DAY_MS;
+  return entries.filter((e) => e.value || e.updatedAt >= cutoff);
+}
+
+const valuesOf = <T>(entries: SyncEntry<T>[]): T[] =>
+  entries.flatMap((e) => (e.value ? [e.value] : []));
+
+const endTimeOf = (session: { startTime: unknown; endTime: unknown }) =>
+  new Date((session.endTime ?? session.startTime) as string).getTime() || 0;
+
+function isSessionSummary(value: unknown): value is SessionSummary {
+  return (
+    isObject(value) &&
+    isObject(value.session) &&
+    typeof value.session.id === "string" &&
+    value.session.id !== "" &&
+    isObject(value.stats) &&
+    typeof value.stats.wpm === "number" &&
+    typeof value.stats.accuracy === "number" &&
+    typeof value.target === "number" &&
+    typeof value.analyzerVersion === "number"
+  );
+}
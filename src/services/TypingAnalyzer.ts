@@ -1,57 +1,125 @@
-import { TypingSession, TypingStats } from "../models/TypingModel";
+import {
+  ErrorPattern,
+  LatencyStats,
+  TypingSession,
+  TypingStats,
+  WordError,
+} from "../models/TypingModel";
+import { SessionRecord } from "../models/SessionModel";
 import { levenshteinDistance } from "./components/stringUtils";
-import { calculateWPM, calculateGrossWPM } from "./components/wpmCalculator";
+import { calculateSpeed } from "./components/wpmCalculator";
 import {
   analyzeKeypressAccuracy,
   calculateCharacterStats,
   calculateCorrectedErrors,
-  calculateCorrectWords,
   countAllTypedCharacters,
 } from "./components/calculations";
 import { calculateConsistencyScore } from "./components/consistencyAnalyzer";
-import { analyzeErrorPatterns } from "./components/errorAnalyzer";
+import {
+  analyzeErrorPatterns,
+  analyzeKeystrokeErrors,
+  analyzeWordErrors,
+  PatternRanking,
+  rankErrorPatterns,
+  rankWordErrors,
+  RankOptions,
+  summarizeKeystrokeErrors,
+  WordRanking,
+} from "./components/errorAnalyzer";
+import { analyzeLatency, LatencyOptions } from "./components/latencyAnalyzer";
 
 export class TypingAnalyzer {
+  // Bump whenever a change here alters the stats computed for the same session
+  public static readonly VERSION = 11;
+
   public static analyzeSession(session: TypingSession): TypingStats {
     const { keystrokes, targetText, userInput, startTime, endTime } = session;
 
+    // Timed tests generate more text than anyone finishes, only the part reached is scored
+    const scoredText =
+      session.mode === "tick-tick"
+        ? targetText.slice(0, userInput.length)
+        : targetText;
+
     const keypressAnalysis = analyzeKeypressAccuracy(keystrokes, targetText);
 
-    const errorCount = levenshteinDistance(targetText, userInput);
+    const errorCount = levenshteinDistance(scoredText, userInput);
 
     const accuracy = keypressAnalysis.accuracy;
 
-    const timeInMinutes = Math.max(
-      0.01,
-      (endTime!.getTime() - startTime!.getTime()) / 60000
-    );
+    if (!startTime || !endTime)
+      throw new Error("Session has no start or end time");
 
-    const correctWords = calculateCorrectWords(targetText, userInput);
-    const wpm = calculateWPM(correctWords, timeInMinutes);
+    const timeInMinutes = (endTime.getTime() - startTime.getTime()) / 60000;
 
-    const allTypedChars = countAllTypedCharacters(keystrokes);
-    const grossWPM = calculateGrossWPM(allTypedChars, timeInMinutes);
+    const speed = calculateSpeed(
+      scoredText,
+      userInput,
+      countAllTypedCharacters(keystrokes),
+      timeInMinutes
+    );
 
     const consistencyScore = calculateConsistencyScore(keystrokes);
 
-    const errorPatterns = analyzeErrorPatterns(
-      targetText,
-      userInput,
-      keystrokes
+    const errorPatterns = analyzeErrorPatterns(scoredText, userInput);
+    const keystrokeErrors = analyzeKeystrokeErrors(keystrokes, targetText);
+    const wordErrors = analyzeWordErrors([session]).filter(
+      (word) => word.errors + word.corrected > 0
     );
 
-    const characterStats = calculateCharacterStats(targetText, userInput);
+    const latency = analyzeLatency([session]);
+
+    const characterStats = calculateCharacterStats(scoredText, userInput);
     const correctedErrors = calculateCorrectedErrors(keystrokes, targetText);
 
     return {
-      wpm,
-      grossWPM,
+      wpm: speed.net,
+      grossWPM: speed.raw,
+      wordsWPM: speed.words,
       accuracy: Math.round(accuracy * 100) / 100,
       errorCount,
       correctedErrors,
       consistencyScore,
       errorPatterns,
+      allErrorPatterns: summarizeKeystrokeErrors(keystrokeErrors),
+      keystrokeErrors,
+      wordErrors,
+      latency,
       characterStats,
     };
   }
+
+  // Slowest and most error-prone sequences over many sessions at once.
+  // Synced summaries have no keystrokes and add nothing.
+  public static analyzeLatency(
+    sessions: TypingSession[],
+    options?: LatencyOptions
+  ): LatencyStats {
+    return analyzeLatency(sessions, options);
+  }
+
+  // Error patterns in another order, e.g. the wrong keypresses that took longest to fix first
+  public static rankErrorPatterns(
+    patterns: ErrorPattern[],
+    options?: RankOptions<PatternRanking>
+  ): ErrorPattern[] {
+    return rankErrorPatterns(patterns, options);
+  }
+
+  // Words over many sessions, including the ones typed right so rates can be compared
+  public static analyzeWordErrors(
+    sessions: TypingSession[],
+    options?: RankOptions<WordRanking>
+  ): WordError[] {
+    return rankWordErrors(analyzeWordErrors(sessions), options);
+  }
+
+  // Stored stats when this analyzer version produced them, a fresh analysis otherwise.
+  // Synced summaries have nothing to analyze, so they always keep their stats.
+  public static statsForRecord(record: SessionRecord): TypingStats {
+    return record.analyzerVersion === TypingAnalyzer.VERSION ||
+      record.summaryOnly
+      ? record.stats
+      : TypingAnalyzer.analyzeSession(record.session);
+  }
 }
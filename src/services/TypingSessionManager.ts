@@ -1,23 +1,35 @@
-import { SessionConfig, SessionState } from "../models/SessionModel";
+import {
+  LiveSessionMetrics,
+  LiveStats,
+  SessionConfig,
+  SessionState,
+} from "../models/SessionModel";
 import { Keystroke, TypingSession } from "../models/TypingModel";
-import { calculateCorrectWords } from "./components/calculations";
-import { calculateWPM } from "./components/wpmCalculator";
+import { Clock, systemClock } from "./components/clock";
+import { applyKey } from "./components/keystrokeReplay";
+import { LiveStatsTracker } from "./components/liveStats";
 
 export class TypingSessionManager {
   private config: SessionConfig;
   private state: SessionState;
-  private sessionTimer: NodeJS.Timeout | null = null;
+  private cancelTimer: (() => void) | null = null;
   private pausedAt: number | null = null;
   private lastKeystrokeTime: number = 0;
   private pausedByBlur: boolean = false;
+  private liveStats: LiveStatsTracker;
 
   private onSessionEnd?: (session: TypingSession) => void;
   private onProgress?: (state: SessionState) => void;
   private onKeystroke?: (keystroke: Keystroke, state: SessionState) => void;
+  private onLiveStats?: (stats: LiveStats) => void;
   private onFocus?: () => void;
   private onBlur?: () => void;
 
-  constructor(config: Omit<SessionConfig, "sessionId">) {
+  // A VirtualClock makes timed sessions deterministic in tests and replays
+  constructor(
+    config: Omit<SessionConfig, "sessionId">,
+    private clock: Clock = systemClock
+  ) {
     this.validateConfig(config);
 
     this.config = {
@@ -25,6 +37,7 @@ export class TypingSessionManager {
       sessionId: crypto.randomUUID(),
     };
     this.state = this.initializeState();
+    this.liveStats = new LiveStatsTracker(this.config.targetText);
   }
 
   private initializeState(): SessionState {
@@ -66,6 +79,11 @@ export class TypingSessionManager {
     this.onKeystroke = callback;
   }
 
+  // Called after every keystroke with the updated live stats
+  public onLiveStatsUpdate(callback: (stats: LiveStats) => void): void {
+    this.onLiveStats = callback;
+  }
+
   public onFocusEvent(callback: () => void): void {
     this.onFocus = callback;
   }
@@ -83,7 +101,7 @@ export class TypingSessionManager {
       // Only auto-resume if we were paused due to blur
       if (this.state.isPaused && this.pausedByBlur) {
         this.state.isPaused = false;
-        this.lastKeystrokeTime = Date.now();
+        this.lastKeystrokeTime = this.clock.now();
         this.pausedByBlur = false;
 
         if (this.config.mode === "tick-tick") this.resumeTimerWithRemaining();
@@ -106,7 +124,7 @@ export class TypingSessionManager {
       console.log("TypingSessionManager: Focus lost, pausing session");
 
       this.state.isPaused = true;
-      this.pausedAt = Date.now();
+      this.pausedAt = this.clock.now();
       this.pausedByBlur = true;
       this.clearTimer();
       this.notifyProgress();
@@ -135,8 +153,8 @@ export class TypingSessionManager {
     if (this.state.isActive) return; // Guard against double-start
 
     this.state.isActive = true;
-    this.state.startTime = new Date();
-    this.lastKeystrokeTime = Date.now();
+    this.state.startTime = new Date(this.clock.now());
+    this.lastKeystrokeTime = this.clock.now();
 
     if (this.config.mode === "tick-tick") this.startTimer();
 
@@ -147,7 +165,7 @@ export class TypingSessionManager {
     if (!this.state.isActive || this.state.isPaused) return;
 
     this.state.isPaused = true;
-    this.pausedAt = Date.now();
+    this.pausedAt = this.clock.now();
     this.pausedByBlur = false; // Manual pause
     this.clearTimer();
     this.notifyProgress();
@@ -157,7 +175,7 @@ export class TypingSessionManager {
     if (!this.state.isActive || !this.state.isPaused) return;
 
     this.state.isPaused = false;
-    this.lastKeystrokeTime = Date.now();
+    this.lastKeystrokeTime = this.clock.now();
     this.pausedByBlur = false;
 
     if (this.config.mode === "tick-tick") this.resumeTimerWithRemaining();
@@ -172,7 +190,7 @@ export class TypingSessionManager {
 
     this.state.isCompleted = true;
     this.state.isActive = false;
-    this.state.endTime = new Date();
+    this.state.endTime = new Date(this.clock.now());
     this.clearTimer();
 
     const session: TypingSession = {
@@ -184,6 +202,8 @@ export class TypingSessionManager {
       endTime: this.state.endTime,
       timerDuration: this.config.target,
       isCompleted: true,
+      mode: this.config.mode,
+      paragraphId: this.config.paragraphId,
     };
 
     this.onSessionEnd?.(session);
@@ -193,16 +213,15 @@ export class TypingSessionManager {
   private startTimer(): void {
     this.clearTimer();
 
-    this.sessionTimer = setTimeout(() => {
-      this.endSession();
-    }, this.config.target * 1000);
+    this.cancelTimer = this.clock.schedule(
+      () => this.endSession(),
+      this.config.target * 1000
+    );
   }
 
   private clearTimer(): void {
-    if (this.sessionTimer) {
-      clearTimeout(this.sessionTimer);
-      this.sessionTimer = null;
-    }
+    this.cancelTimer?.();
+    this.cancelTimer = null;
   }
 
   private notifyProgress(): void {
@@ -217,13 +236,18 @@ export class TypingSessionManager {
     const remainingTime = Math.max(0, this.config.target - timeUsedBeforePause);
 
     if (remainingTime > 0) {
-      this.sessionTimer = setTimeout(() => {
-        this.endSession();
-      }, remainingTime * 1000);
+      this.cancelTimer = this.clock.schedule(
+        () => this.endSession(),
+        remainingTime * 1000
+      );
     } else this.endSession(); // ending session because time was already up when paused
   }
 
-  public processKeystroke(character: string): boolean {
+  // The timestamp defaults to now, a recorded one replays a session at its own pace
+  public processKeystroke(
+    character: string,
+    timestamp: number = this.clock.now()
+  ): boolean {
     try {
       if (!character || character.length === 0) {
         console.warn("TypingSessionManager: Empty character ignored");
@@ -242,7 +266,7 @@ export class TypingSessionManager {
       if (!this.state.isActive || this.state.isPaused || this.state.isCompleted)
         return false;
 
-      const now = Date.now();
+      const now = timestamp;
       const timeSinceLast =
         this.state.keystrokes.length === 0 ? 0 : now - this.lastKeystrokeTime;
 
@@ -254,23 +278,16 @@ export class TypingSessionManager {
 
       this.state.keystrokes.push(keystroke);
       this.lastKeystrokeTime = now;
-      if (character === "\b" || character === "Backspace") {
-        if (this.state.currentInput.length > 0) {
-          this.state.currentInput = this.state.currentInput.slice(0, -1);
-          this.state.currentPosition = Math.max(
-            0,
-            this.state.currentPosition - 1
-          );
-        }
-      } else {
-        this.state.currentInput += character;
-        this.state.currentPosition++;
-      }
+      // Same rule the analyzer replays keystrokes with
+      this.state.currentInput = applyKey(this.state.currentInput, character);
+      this.state.currentPosition = this.state.currentInput.length;
+      this.liveStats.addKey(character, now);
 
       // check if session should end based on mode in each keystroke
       this.checkCompletionConditions();
 
       this.onKeystroke?.(keystroke, { ...this.state });
+      this.onLiveStats?.(this.getLiveStats());
       this.notifyProgress();
 
       return true;
@@ -354,7 +371,7 @@ export class TypingSessionManager {
     let endTime: Date;
     if (this.state.isPaused && this.pausedAt) endTime = new Date(this.pausedAt);
     else if (this.state.endTime) endTime = new Date(this.state.endTime);
-    else endTime = new Date();
+    else endTime = new Date(this.clock.now());
 
     return (endTime.getTime() - this.state.startTime.getTime()) / 1000;
   }
@@ -387,28 +404,38 @@ export class TypingSessionManager {
     }
   }
 
-  public getCurrentWPM(): number {
+  // Same rules as TypingAnalyzer, so the header matches the results screen
+  public getLiveStats(): LiveStats {
     const elapsed = this.getElapsedTime();
-    if (elapsed <= 0.01) return 0; // Avoid division by very small numbers
+    const now = (this.state.startTime?.getTime() ?? 0) + elapsed * 1000;
 
-    try {
-      const correctWords = calculateCorrectWords(
-        this.config.targetText,
-        this.state.currentInput
-      );
-      const timeInMinutes = elapsed / 60;
+    // Avoid division by very small numbers
+    return this.liveStats.getStats(elapsed <= 0.01 ? 0 : elapsed, now);
+  }
 
-      return calculateWPM(correctWords, timeInMinutes);
-    } catch (error) {
-      console.error("TypingSessionManager: WPM calculation failed:", error);
-      return 0;
-    }
+  public getCurrentWPM(): number {
+    return this.getLiveStats().wpm;
+  }
+
+  public getAccuracy(): number {
+    return this.getLiveStats().accuracy;
+  }
+
+  // Snapshot of everything the UI header shows, sent along with each progress update
+  public getLiveMetrics(): LiveSessionMetrics {
+    return {
+      ...this.getLiveStats(),
+      elapsedTime: this.getElapsedTime(),
+      remainingTime: this.getRemainingTime(),
+      progress: this.getProgress(),
+    };
   }
 
   public resetSession(): void {
     if (this.state.isActive) this.clearTimer();
 
     this.state = this.initializeState();
+    this.liveStats = new LiveStatsTracker(this.config.targetText);
     this.lastKeystrokeTime = 0;
     this.pausedAt = null;
 
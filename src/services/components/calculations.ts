@@ -1,4 +1,6 @@
-import { Keystroke } from "../../models/TypingModel";
+import { ErrorFound, Keystroke } from "../../models/TypingModel";
+import { isBackspace, replayKeystrokes } from "./keystrokeReplay";
+import { findAlignedErrors } from "./stringUtils";
 
 export function analyzeKeypressAccuracy(
   keystrokes: Keystroke[],
@@ -8,30 +10,12 @@ export function analyzeKeypressAccuracy(
   correctKeypresses: number;
   accuracy: number;
 } {
-  let position = 0;
-  let correctKeypresses = 0;
-  let totalKeypresses = 0;
-
-  for (const keystroke of keystrokes) {
-    if (keystroke.key === "\b") {
-      if (position > 0) {
-        position--;
-        // we go back to prev position and skip backspace as a count for totalKeyPresses
-      }
-      continue;
-    }
-
-    totalKeypresses++;
-
-    if (
-      position < targetText.length &&
-      keystroke.key === targetText[position]
-    ) {
-      correctKeypresses++;
-    }
-
-    position++;
-  }
+  // Backspaces are not keypresses here, a corrected mistake still counts against accuracy
+  const typed = replayKeystrokes(keystrokes, targetText).filter(
+    (step) => !step.isBackspace
+  );
+  const totalKeypresses = typed.length;
+  const correctKeypresses = typed.filter((step) => step.isCorrect).length;
 
   const accuracy =
     totalKeypresses > 0 ? (correctKeypresses / totalKeypresses) * 100 : 100;
@@ -72,6 +56,25 @@ export function calculateCharacterStats(
   };
 }
 
+// Target characters typed right once the input is aligned with the target,
+// so a dropped or doubled character costs itself and not everything after it
+export function countAlignedCorrect(
+  targetText: string,
+  userInput: string
+): number {
+  const wrong = countAlignedWrong(findAlignedErrors(targetText, userInput));
+  return Math.max(0, targetText.length - wrong);
+}
+
+// Target characters the errors cost, extra characters cost none of them
+export const countAlignedWrong = (errors: ErrorFound[]) =>
+  errors.reduce(
+    (sum, error) =>
+      sum +
+      (error.type === "transposition" ? 2 : error.type === "insertion" ? 0 : 1),
+    0
+  );
+
 export function calculateCorrectWords(
   targetText: string,
   userInput: string
@@ -79,7 +82,7 @@ export function calculateCorrectWords(
   if (!targetText.trim() || !userInput.trim()) return 0;
 
   const targetWords = targetText.trim().split(/\s+/);
-  const userWords = targetText.trim().split(/\s+/);
+  const userWords = userInput.trim().split(/\s+/);
 
   let correctWords = 0;
 
@@ -91,46 +94,18 @@ export function calculateCorrectWords(
   return correctWords;
 }
 
+// Backspaces are not typed characters
 export function countAllTypedCharacters(keystrokes: Keystroke[]): number {
-  let totalTypedChars = 0;
-
-  for (const keystroke of keystrokes)
-    if (keystroke.key !== "\b") totalTypedChars++;
-
-  //Note: We don't count backspaces as "typed" characters
-
-  return totalTypedChars;
+  return keystrokes.filter(({ key }) => !isBackspace(key)).length;
 }
 
+// Backspaces that removed a character which did not match the target, extra characters
+// past its end included. The keystroke errors mark the same ones as corrected.
 export function calculateCorrectedErrors(
   keystrokes: Keystroke[],
   targetText: string
 ): number {
-  let position = 0;
-  let currentInput = "";
-  let correctedErrors = 0;
-
-  for (const keystroke of keystrokes) {
-    if (keystroke.key === "\b") {
-      if (currentInput.length > 0) {
-        // here removedChar is the key to be removed
-        const removedChar = currentInput[currentInput.length - 1];
-        currentInput = currentInput.slice(0, -1);
-        position = Math.max(0, position - 1); // decrement the position after the char was deleted
-
-        // check if removed char was actually wrong
-        if (
-          position < targetText.length &&
-          removedChar !== targetText[position]
-        )
-          correctedErrors++;
-      }
-    } else {
-      // if not backspace, it would be a regular character and we can proceed incrementing the position
-      currentInput += keystroke;
-      position++;
-    }
-  }
-
-  return correctedErrors;
+  return replayKeystrokes(keystrokes, targetText).filter(
+    (step) => step.isBackspace && step.char !== undefined && !step.isCorrect
+  ).length;
 }
@@ -0,0 +1,79 @@
+// Where the session manager and keystroke capture read the time and schedule timers.
+// Times are milliseconds since the epoch, like Date.now().
+export interface Clock {
+  now(): number;
+  // Runs the callback after delay ms, the returned function cancels it
+  schedule(callback: () => void, delay: number): () => void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  schedule: (callback, delay) => {
+    const timer = setTimeout(callback, delay);
+    return () => clearTimeout(timer);
+  },
+};
+
+interface VirtualTimer {
+  id: number;
+  dueAt: number;
+  callback: () => void;
+}
+
+// Time that only moves when told to, for tests and for replaying sessions
+// faster than real time. Timers run in the order they fall due.
+export class VirtualClock implements Clock {
+  private time: number;
+  private timers: VirtualTimer[] = [];
+  private nextId = 0;
+
+  constructor(startTime = 0) {
+    this.time = startTime;
+  }
+
+  public now(): number {
+    return this.time;
+  }
+
+  public schedule(callback: () => void, delay: number): () => void {
+    const timer: VirtualTimer = {
+      id: this.nextId++,
+      dueAt: this.time + Math.max(0, delay),
+      callback,
+    };
+    this.timers.push(timer);
+
+    return () => {
+      this.timers = this.timers.filter((t) => t !== timer);
+    };
+  }
+
+  // Moves the time forward, stopping at each timer on the way so it sees its own time.
+  // Timers scheduled by those callbacks run too when they fall due in the window.
+  public advance(ms: number): void {
+    const target = this.time + Math.max(0, ms);
+
+    let timer: VirtualTimer | undefined;
+    while ((timer = this.nextDue(target))) {
+      this.timers = this.timers.filter((t) => t !== timer);
+      this.time = timer.dueAt;
+      timer.callback();
+    }
+
+    this.time = target;
+  }
+
+  public setTime(time: number): void {
+    this.advance(time - this.time);
+  }
+
+  public getPendingCount(): number {
+    return this.timers.length;
+  }
+
+  private nextDue(target: number): VirtualTimer | undefined {
+    return this.timers
+      .filter((t) => t.dueAt <= target)
+      .sort((a, b) => a.dueAt - b.dueAt || a.id - b.id)[0];
+  }
+}
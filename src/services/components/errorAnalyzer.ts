@@ -1,28 +1,128 @@
-import { ErrorFound, ErrorPattern, Keystroke } from "../../models/TypingModel";
+import {
+  ErrorFound,
+  ErrorPattern,
+  ErrorType,
+  Keystroke,
+  KeystrokeError,
+  WordError,
+} from "../../models/TypingModel";
+import { replayKeystrokes } from "./keystrokeReplay";
 import { findAlignedErrors } from "./stringUtils";
 
+// How callers order a report and how much of it they want, everything by default
+export interface RankOptions<Ranking extends string> {
+  rankBy?: Ranking;
+  limit?: number;
+}
+
+export type PatternRanking = "frequency" | "corrected" | "timeToFix";
+export type WordRanking = "errors" | "errorRate" | "duration";
+
+// Errors left in the final text, whatever happened while typing it
 export function analyzeErrorPatterns(
   targetText: string,
-  inputText: string,
-  keystrokes: Keystroke[]
+  inputText: string
 ): ErrorPattern[] {
   if (!targetText || !inputText) {
     return [];
   }
 
-  const alignedErrors = findAlignedErrors(targetText, inputText);
+  return groupErrors(findAlignedErrors(targetText, inputText));
+}
+
+// Every wrong keypress in the order it happened, replayed from the keystrokes
+export function analyzeKeystrokeErrors(
+  keystrokes: Keystroke[],
+  targetText: string
+): KeystrokeError[] {
+  const errors: KeystrokeError[] = [];
+  const typed: (KeystrokeError | null)[] = []; // one entry per input character, null when right
+  const awaitingFix = new Map<number, KeystrokeError[]>(); // by position
+  let backspaceStart: number | undefined;
+
+  for (const step of replayKeystrokes(keystrokes, targetText)) {
+    const { timestamp } = step.keystroke;
+
+    if (step.isBackspace) {
+      if (backspaceStart === undefined) backspaceStart = timestamp;
+
+      const removed = typed.pop();
+      if (removed) {
+        removed.corrected = true;
+        removed.timeToNotice = backspaceStart - removed.timestamp;
+        awaitingFix.set(removed.position, [
+          ...(awaitingFix.get(removed.position) ?? []),
+          removed,
+        ]);
+      }
+      continue;
+    }
+    backspaceStart = undefined;
+
+    if (step.isCorrect) {
+      for (const error of awaitingFix.get(step.position) ?? [])
+        error.timeToFix = timestamp - error.timestamp;
+      awaitingFix.delete(step.position);
+      typed.push(null);
+      continue;
+    }
+
+    const error: KeystrokeError = {
+      index: step.index,
+      timestamp,
+      position: step.position,
+      expectedChar: targetText[step.position] ?? null,
+      actualChar: step.keystroke.key,
+      corrected: false,
+    };
+    errors.push(error);
+    typed.push(error);
+  }
+
+  return errors;
+}
+
+// Wrong keypresses grouped like analyzeErrorPatterns, with how they were corrected
+export function summarizeKeystrokeErrors(
+  errors: KeystrokeError[]
+): ErrorPattern[] {
+  const patterns = groupErrors(
+    errors.map(
+      (error): ErrorFound => ({
+        expectedChar: error.expectedChar,
+        actualChar: error.actualChar,
+        position: error.position,
+        type: error.expectedChar === null ? "insertion" : "substitution",
+      })
+    )
+  );
+
+  return patterns.map((pattern) => {
+    const matching = errors.filter(
+      (error) => (error.expectedChar ?? "") === pattern.character
+    );
+
+    return {
+      ...pattern,
+      corrected: matching.filter((error) => error.corrected).length,
+      averageTimeToNotice: average(matching.map((e) => e.timeToNotice)),
+      averageTimeToFix: average(matching.map((e) => e.timeToFix)),
+    };
+  });
+}
 
+function groupErrors(errors: ErrorFound[]): ErrorPattern[] {
   const errorMap = new Map<
     string,
     {
       frequency: number;
       positions: number[];
       mistakes: Set<string>;
-      errorType: "substitution" | "deletion" | "insertion";
+      types: Map<ErrorType, number>;
     }
   >();
 
-  alignedErrors.forEach((error: ErrorFound) => {
+  errors.forEach((error: ErrorFound) => {
     const key = error.expectedChar || "_MISSING_";
 
     if (!errorMap.has(key)) {
@@ -30,7 +130,7 @@ export function analyzeErrorPatterns(
         frequency: 0,
         positions: [],
         mistakes: new Set(),
-        errorType: error.type,
+        types: new Map(),
       });
     }
 
@@ -38,16 +138,221 @@ export function analyzeErrorPatterns(
     errorData.frequency++;
     errorData.positions.push(error.position);
     errorData.mistakes.add(error.actualChar || "_DELETED_");
+    errorData.types.set(error.type, (errorData.types.get(error.type) ?? 0) + 1);
   });
 
   return Array.from(errorMap.entries())
-    .map(([character, data]) => ({
-      character: character === "_MISSING_" ? "" : character,
-      frequency: data.frequency,
-      positions: data.positions,
-      commonMistakes: Array.from(data.mistakes),
-      errorType: data.errorType,
+    .map(([character, data]) => {
+      // Most frequent first, ties in the order they were seen
+      const errorTypes = [...data.types.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([type]) => type);
+
+      return {
+        character: character === "_MISSING_" ? "" : character,
+        frequency: data.frequency,
+        positions: data.positions,
+        commonMistakes: Array.from(data.mistakes),
+        errorType: errorTypes[0],
+        errorTypes,
+      };
+    })
+    .sort((a, b) => b.frequency - a.frequency);
+}
+
+export function rankErrorPatterns(
+  patterns: ErrorPattern[],
+  { rankBy = "frequency", limit }: RankOptions<PatternRanking> = {}
+): ErrorPattern[] {
+  const score = (pattern: ErrorPattern) =>
+    rankBy === "corrected"
+      ? pattern.corrected ?? 0
+      : rankBy === "timeToFix"
+      ? pattern.averageTimeToFix ?? -1
+      : pattern.frequency;
+
+  return [...patterns]
+    .sort((a, b) => score(b) - score(a) || b.frequency - a.frequency)
+    .slice(0, limit);
+}
+
+// Every target word the input got past, with what was typed there and how long it took.
+// Words are matched with the input through the aligned errors, like net WPM.
+export function analyzeWordErrors(
+  sessions: { targetText: string; userInput: string; keystrokes: Keystroke[] }[]
+): WordError[] {
+  const words = new Map<
+    string,
+    {
+      count: number;
+      errors: number;
+      corrected: number;
+      typedInstead: Map<string, number>;
+      durations: number[];
+    }
+  >();
+
+  for (const { targetText, userInput, keystrokes } of sessions) {
+    const ranges = [...targetText.matchAll(/\S+/g)].map((match) => ({
+      word: match[0],
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+    }));
+
+    // Which word each target position belongs to, undefined for whitespace
+    const wordAt: number[] = [];
+    ranges.forEach(({ start, end }, w) => {
+      for (let p = start; p < end; p++) wordAt[p] = w;
+    });
+
+    const { wordOf, typedUntil } = alignInputWords(
+      targetText,
+      userInput,
+      wordAt
+    );
+    const typed = ranges.map(() => "");
+    wordOf.forEach((w, q) => {
+      if (w !== undefined) typed[w] += userInput[q];
+    });
+
+    // First and last keystroke that typed or erased inside each word. An erased
+    // character that differs from the one left in its place was a mistake.
+    const activity = ranges.map(() => ({ first: -1, last: -1, wrong: false }));
+    for (const step of replayKeystrokes(keystrokes, targetText)) {
+      const w = wordOf[step.position];
+      if (w === undefined) continue;
+
+      const entry = activity[w];
+      if (entry.first === -1) entry.first = step.index;
+      entry.last = step.index;
+      if (
+        step.isBackspace &&
+        step.char !== undefined &&
+        step.char !== userInput[step.position]
+      )
+        entry.wrong = true;
+    }
+
+    ranges.forEach(({ word, end }, w) => {
+      if (end > typedUntil) return; // not finished, a timed test ended inside it
+
+      const { first, last, wrong } = activity[w];
+      const data = words.get(word) ?? {
+        count: 0,
+        errors: 0,
+        corrected: 0,
+        typedInstead: new Map<string, number>(),
+        durations: [],
+      };
+
+      data.count++;
+      if (typed[w] !== word) {
+        data.errors++;
+        data.typedInstead.set(
+          typed[w],
+          (data.typedInstead.get(typed[w]) ?? 0) + 1
+        );
+      } else if (wrong) data.corrected++;
+
+      if (first !== -1)
+        data.durations.push(
+          keystrokes[last].timestamp -
+            keystrokes[Math.max(0, first - 1)].timestamp
+        );
+
+      words.set(word, data);
+    });
+  }
+
+  return rankWordErrors(
+    [...words.entries()].map(([word, data]) => ({
+      word,
+      count: data.count,
+      errors: data.errors,
+      corrected: data.corrected,
+      typedInstead: [...data.typedInstead.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([typed]) => typed),
+      averageDuration: average(data.durations) ?? null,
     }))
-    .sort((a, b) => b.frequency - a.frequency)
-    .slice(0, 10);
+  );
+}
+
+// The target word each input character was aligned with, undefined between words,
+// and how far into the target the input got before it ran out
+function alignInputWords(
+  targetText: string,
+  userInput: string,
+  wordAt: number[]
+): { wordOf: (number | undefined)[]; typedUntil: number } {
+  const wordOf: (number | undefined)[] = [];
+  let p = 0; // target position
+  let typedUntil = 0;
+
+  const typeAt = (position: number) => {
+    wordOf.push(wordAt[position]);
+    typedUntil = position + 1;
+  };
+  const matchUntil = (position: number) => {
+    for (; p < position; p++) typeAt(p);
+  };
+
+  for (const error of findAlignedErrors(targetText, userInput)) {
+    matchUntil(error.position);
+
+    switch (error.type) {
+      case "substitution":
+        typeAt(p++);
+        break;
+      case "transposition":
+        typeAt(p++);
+        typeAt(p++);
+        break;
+      case "deletion":
+        p++;
+        break;
+      case "insertion": {
+        // Extra characters at a word's edge belong to it, extra spaces only inside it
+        const before = wordAt[p - 1];
+        const after = wordAt[p];
+        wordOf.push(
+          /\s/.test(error.actualChar ?? "")
+            ? before === after
+              ? before
+              : undefined
+            : after ?? before
+        );
+      }
+    }
+  }
+  matchUntil(targetText.length);
+
+  return { wordOf, typedUntil };
+}
+
+export function rankWordErrors(
+  words: WordError[],
+  { rankBy = "errors", limit }: RankOptions<WordRanking> = {}
+): WordError[] {
+  const score = (word: WordError) =>
+    rankBy === "errorRate"
+      ? (word.errors + word.corrected) / word.count
+      : rankBy === "duration"
+      ? word.averageDuration ?? -1
+      : word.errors;
+
+  return [...words]
+    .sort(
+      (a, b) =>
+        score(b) - score(a) || b.errors - a.errors || b.corrected - a.corrected
+    )
+    .slice(0, limit);
+}
+
+// Rounded ms over the values that are known, undefined when none are
+function average(values: (number | undefined)[]): number | undefined {
+  const known = values.filter((v): v is number => v !== undefined);
+  return known.length > 0
+    ? Math.round(known.reduce((sum, v) => sum + v, 0) / known.length)
+    : undefined;
 }
@@ -0,0 +1,131 @@
+import {
+  HistoryFilters,
+  HistoryStats,
+  PersonalBest,
+  SessionSummary,
+  TrendPeriod,
+  TrendPoint,
+} from "../../models/SessionModel";
+
+export const ALL_FILTERS: HistoryFilters = {
+  mode: "all",
+  category: "all",
+  from: "",
+  to: "",
+};
+
+// Dates arrive as ISO strings once the session has crossed the message channel
+export const sessionDate = (entry: SessionSummary): Date =>
+  new Date(entry.session.endTime ?? entry.session.startTime ?? 0);
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Local calendar date, so a session at 23:30 counts for the day it was typed
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const toWeekKey = (date: Date): string => {
+  const monday = new Date(date);
+  monday.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return toDateKey(monday);
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function filterHistory(
+  entries: SessionSummary[],
+  filters: HistoryFilters
+): SessionSummary[] {
+  return entries.filter((entry) => {
+    const day = toDateKey(sessionDate(entry));
+
+    return (
+      (filters.mode === "all" || entry.mode === filters.mode) &&
+      (filters.category === "all" || entry.category === filters.category) &&
+      (!filters.from || day >= filters.from) &&
+      (!filters.to || day <= filters.to)
+    );
+  });
+}
+
+export function listCategories(entries: SessionSummary[]): string[] {
+  const categories = new Set<string>();
+  for (const entry of entries)
+    if (entry.category) categories.add(entry.category);
+  return [...categories].sort();
+}
+
+// Averages WPM and accuracy per day or week, oldest period first
+export function computeTrend(
+  entries: SessionSummary[],
+  period: TrendPeriod
+): TrendPoint[] {
+  const buckets = new Map<string, SessionSummary[]>();
+
+  for (const entry of entries) {
+    const date = sessionDate(entry);
+    const key = period === "day" ? toDateKey(date) : toWeekKey(date);
+    buckets.set(key, [...(buckets.get(key) ?? []), entry]);
+  }
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, bucket]) => ({
+      period: key,
+      wpm: round(
+        bucket.reduce((sum, e) => sum + e.stats.wpm, 0) / bucket.length
+      ),
+      accuracy: round(
+        bucket.reduce((sum, e) => sum + e.stats.accuracy, 0) / bucket.length
+      ),
+      sessions: bucket.length,
+    }));
+}
+
+// Best WPM per mode and target. Passages are ranked per paragraph since their target is unused.
+export function findPersonalBests(entries: SessionSummary[]): PersonalBest[] {
+  const bests = new Map<string, PersonalBest>();
+
+  for (const entry of entries) {
+    const key =
+      entry.mode === "passage"
+        ? `passage:${entry.paragraphId ?? ""}`
+        : `${entry.mode ?? "unknown"}:${entry.target}`;
+    const current = bests.get(key)?.entry;
+
+    if (
+      !current ||
+      entry.stats.wpm > current.stats.wpm ||
+      (entry.stats.wpm === current.stats.wpm &&
+        entry.stats.accuracy > current.stats.accuracy)
+    )
+      bests.set(key, {
+        key,
+        mode: entry.mode,
+        target: entry.target,
+        paragraphId: entry.paragraphId,
+        entry,
+      });
+  }
+
+  return [...bests.values()].sort(
+    (a, b) => (a.mode ?? "").localeCompare(b.mode ?? "") || a.target - b.target
+  );
+}
+
+export function computeHistoryStats(
+  entries: SessionSummary[],
+  filters: HistoryFilters,
+  period: TrendPeriod
+): HistoryStats {
+  const filtered = filterHistory(entries, filters);
+
+  return {
+    sessions: filtered.length,
+    categories: listCategories(entries),
+    trend: computeTrend(filtered, period),
+    bests: findPersonalBests(filtered),
+    // Synced sessions have no keystrokes for the heatmap
+    heatmapIds: filtered.filter((e) => !e.summaryOnly).map((e) => e.session.id),
+  };
+}
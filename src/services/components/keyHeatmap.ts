@@ -0,0 +1,123 @@
+import {
+  Finger,
+  KeyboardKey,
+  KeyboardLayoutName,
+  KeyHeatmap,
+  KeyHeatStats,
+} from "../../models/KeyboardModel";
+import { Keystroke } from "../../models/TypingModel";
+import { analyzeErrorPatterns } from "./errorAnalyzer";
+import { findKey, KEYBOARD_LAYOUTS } from "./keyboardLayouts";
+import { analyzeLatency } from "./latencyAnalyzer";
+
+interface Totals {
+  typed: number;
+  errors: number;
+  timed: number; // keystrokes with a latency, the weight of the average
+  latency: number; // ms summed over timed keystrokes
+}
+
+const emptyTotals = (): Totals => ({
+  typed: 0,
+  errors: 0,
+  timed: 0,
+  latency: 0,
+});
+
+// Error rate and latency per key and per finger, for the characters of the chosen layout.
+// Characters the layout has no key for, like accented letters, are left out.
+export function buildKeyHeatmap(
+  sessions: {
+    targetText: string;
+    userInput: string;
+    keystrokes: Keystroke[];
+  }[],
+  layoutName: KeyboardLayoutName
+): KeyHeatmap {
+  const layout = KEYBOARD_LAYOUTS[layoutName];
+  const totals = new Map<KeyboardKey, Totals>();
+
+  const totalsFor = (char: string) => {
+    const key = findKey(layout, char);
+    if (!key) return undefined;
+
+    if (!totals.has(key)) totals.set(key, emptyTotals());
+    return totals.get(key);
+  };
+
+  // Synced summaries keep no text, and a timed test leaves the rest of its text untyped
+  const typedSessions = sessions
+    .filter((s) => s.targetText && s.userInput && s.keystrokes.length > 0)
+    .map((s) => ({
+      ...s,
+      targetText: s.targetText.slice(0, s.userInput.length),
+    }));
+
+  for (const { targetText, userInput } of typedSessions) {
+    for (const char of targetText) {
+      const entry = totalsFor(char);
+      if (entry) entry.typed++;
+    }
+
+    for (const pattern of analyzeErrorPatterns(targetText, userInput)) {
+      const entry = totalsFor(pattern.character);
+      if (entry) entry.errors += pattern.frequency;
+    }
+  }
+
+  for (const stat of analyzeLatency(typedSessions).keys) {
+    const entry = totalsFor(stat.sequence);
+    if (!entry) continue;
+
+    entry.timed += stat.count;
+    entry.latency += stat.averageLatency * stat.count;
+  }
+
+  const fingers = new Map<string, { key: KeyboardKey; totals: Totals }>();
+  for (const [key, entry] of totals) {
+    const id = `${key.hand}-${key.finger}`;
+    const finger = fingers.get(id) ?? { key, totals: emptyTotals() };
+
+    finger.totals.typed += entry.typed;
+    finger.totals.errors += entry.errors;
+    finger.totals.timed += entry.timed;
+    finger.totals.latency += entry.latency;
+    fingers.set(id, finger);
+  }
+
+  return {
+    layout: layoutName,
+    sessions: typedSessions.length,
+    keys: layout.rows.flat().map((key) => ({
+      key,
+      ...toHeat(totals.get(key) ?? emptyTotals()),
+    })),
+    fingers: [...fingers.values()]
+      .filter(({ totals }) => totals.typed > 0)
+      .sort((a, b) => handOrder(a.key) - handOrder(b.key))
+      .map(({ key, totals }) => ({
+        hand: key.hand,
+        finger: key.finger,
+        ...toHeat(totals),
+      })),
+  };
+}
+
+const FINGERS: Finger[] = ["pinky", "ring", "middle", "index", "thumb"];
+
+// Left pinky to right pinky, as the fingers sit on the keyboard
+const handOrder = ({ hand, finger }: KeyboardKey) =>
+  hand === "left"
+    ? FINGERS.indexOf(finger)
+    : hand === "both"
+    ? FINGERS.length
+    : 2 * FINGERS.length - FINGERS.indexOf(finger);
+
+function toHeat({ typed, errors, timed, latency }: Totals): KeyHeatStats {
+  return {
+    typed,
+    errors,
+    errorRate: typed > 0 ? Math.round((errors / typed) * 10000) / 100 : 0,
+    averageLatency: timed > 0 ? Math.round(latency / timed) : null,
+  };
+}
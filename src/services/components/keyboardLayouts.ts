@@ -0,0 +1,108 @@
+import {
+  Finger,
+  Hand,
+  KeyboardKey,
+  KeyboardLayout,
+  KeyboardLayoutName,
+} from "../../models/KeyboardModel";
+
+type FingerPosition = [Hand, Finger];
+
+// Touch typing assignment of an ANSI keyboard. Fingers follow the physical key,
+// so every layout shares it and only the characters move.
+const NUMBER_ROW_FINGERS: FingerPosition[] = [
+  ["left", "pinky"],
+  ["left", "pinky"],
+  ["left", "ring"],
+  ["left", "middle"],
+  ["left", "index"],
+  ["left", "index"],
+  ["right", "index"],
+  ["right", "index"],
+  ["right", "middle"],
+  ["right", "ring"],
+  ["right", "pinky"],
+  ["right", "pinky"],
+  ["right", "pinky"],
+];
+const LETTER_ROW_FINGERS: FingerPosition[] = [
+  ["left", "pinky"],
+  ["left", "ring"],
+  ["left", "middle"],
+  ["left", "index"],
+  ["left", "index"],
+  ["right", "index"],
+  ["right", "index"],
+  ["right", "middle"],
+  ["right", "ring"],
+  ["right", "pinky"],
+  ["right", "pinky"],
+  ["right", "pinky"],
+  ["right", "pinky"],
+];
+
+// Each row as its unshifted and shifted characters, top to bottom
+function buildLayout(
+  name: KeyboardLayoutName,
+  label: string,
+  rows: [string, string][]
+): KeyboardLayout {
+  const keys = rows.map(([base, shifted], row) =>
+    [...base].map((char, column): KeyboardKey => {
+      const [hand, finger] = (
+        row === 0 ? NUMBER_ROW_FINGERS : LETTER_ROW_FINGERS
+      )[column];
+      return {
+        base: char,
+        shifted: shifted[column],
+        row,
+        column,
+        hand,
+        finger,
+      };
+    })
+  );
+
+  const space: KeyboardKey = {
+    base: " ",
+    shifted: " ",
+    row: rows.length,
+    column: 0,
+    hand: "both",
+    finger: "thumb",
+  };
+
+  return { name, label, rows: [...keys, [space]] };
+}
+
+export const KEYBOARD_LAYOUTS: Record<KeyboardLayoutName, KeyboardLayout> = {
+  qwerty: buildLayout("qwerty", "QWERTY", [
+    ["`1234567890-=", "~!@#$%^&*()_+"],
+    ["qwertyuiop[]\\", "QWERTYUIOP{}|"],
+    ["asdfghjkl;'", 'ASDFGHJKL:"'],
+    ["zxcvbnm,./", "ZXCVBNM<>?"],
+  ]),
+  dvorak: buildLayout("dvorak", "Dvorak", [
+    ["`1234567890[]", "~!@#$%^&*(){}"],
+    ["',.pyfgcrl/=\\", '"<>PYFGCRL?+|'],
+    ["aoeuidhtns-", "AOEUIDHTNS_"],
+    [";qjkxbmwvz", ":QJKXBMWVZ"],
+  ]),
+  colemak: buildLayout("colemak", "Colemak", [
+    ["`1234567890-=", "~!@#$%^&*()_+"],
+    ["qwfpgjluy;[]\\", "QWFPGJLUY:{}|"],
+    ["arstdhneio'", 'ARSTDHNEIO"'],
+    ["zxcvbkm,./", "ZXCVBKM<>?"],
+  ]),
+};
+
+// The key that types the character, with or without shift
+export function findKey(
+  layout: KeyboardLayout,
+  char: string
+): KeyboardKey | undefined {
+  for (const row of layout.rows)
+    for (const key of row)
+      if (key.base === char || key.shifted === char) return key;
+  return undefined;
+}
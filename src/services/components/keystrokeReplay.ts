@@ -0,0 +1,54 @@
+import { Keystroke } from "../../models/TypingModel";
+
+// The webview sends "\b", key names arrive as "Backspace"
+export const isBackspace = (key: string) => key === "\b" || key === "Backspace";
+
+// The one rule for how a key changes the input, shared by live sessions and replays
+export function applyKey(input: string, key: string): string {
+  return isBackspace(key) ? input.slice(0, -1) : input + key;
+}
+
+// Input state right after one keystroke was applied
+export interface ReplayStep {
+  keystroke: Keystroke;
+  index: number; // position of the keystroke in the stream
+  input: string; // whole input after the keystroke
+  isBackspace: boolean;
+  // Where the key acted: the position a character was typed at, or the one a backspace cleared
+  position: number;
+  // The character typed or removed, undefined for a backspace on empty input
+  char?: string;
+  // Whether that character matches the target at position, false past the end of the target
+  isCorrect: boolean;
+}
+
+// Replays the keystrokes against the target, one step per keystroke
+export function replayKeystrokes(
+  keystrokes: Keystroke[],
+  targetText: string
+): ReplayStep[] {
+  let input = "";
+
+  return keystrokes.map((keystroke, index) => {
+    const backspace = isBackspace(keystroke.key);
+    const position = backspace ? Math.max(0, input.length - 1) : input.length;
+    const char = backspace ? input[input.length - 1] : keystroke.key;
+
+    input = applyKey(input, keystroke.key);
+
+    return {
+      keystroke,
+      index,
+      input,
+      isBackspace: backspace,
+      position,
+      char,
+      isCorrect: char !== undefined && char === targetText[position],
+    };
+  });
+}
+
+// Final input the keystrokes leave behind
+export function reconstructInput(keystrokes: Keystroke[]): string {
+  return keystrokes.reduce((input, { key }) => applyKey(input, key), "");
+}
@@ -0,0 +1,101 @@
+import { Keystroke, LatencyStats, NGramStat } from "../../models/TypingModel";
+import { replayKeystrokes } from "./keystrokeReplay";
+
+export interface LatencyOptions {
+  limit?: number; // length of the slowest and mostErrors lists
+  minCount?: number; // sequences typed fewer times are left out of those lists
+}
+
+interface Samples {
+  latencies: number[];
+  errors: number;
+}
+
+// Per-key, bigram and trigram timing over one or many sessions.
+// Only uninterrupted runs of typing are timed: a backspace ends the run, so the time
+// spent noticing and fixing a mistake never counts towards the key typed after it.
+export function analyzeLatency(
+  sessions: { keystrokes: Keystroke[]; targetText: string }[],
+  { limit = 10, minCount = 1 }: LatencyOptions = {}
+): LatencyStats {
+  const keys = new Map<string, Samples>();
+  const sequences = new Map<string, Samples>();
+
+  for (const { keystrokes, targetText } of sessions) {
+    let runStart = 0;
+
+    replayKeystrokes(keystrokes, targetText).forEach((step, i) => {
+      if (step.isBackspace) {
+        runStart = i + 1;
+        return;
+      }
+      if (step.position >= targetText.length) return;
+
+      const timestamp = step.keystroke.timestamp;
+      const isError = !step.isCorrect;
+
+      // The run holds this keystroke and the run - 1 before it, at the previous positions
+      const run = Math.min(i - runStart + 1, step.position + 1);
+
+      for (let n = 1; n <= 3; n++) {
+        const first = i - Math.max(n - 1, 1);
+        if (run < Math.max(n, 2)) break;
+
+        const latency = timestamp - keystrokes[first].timestamp;
+        const sequence = targetText.slice(
+          step.position - n + 1,
+          step.position + 1
+        );
+        addSample(n === 1 ? keys : sequences, sequence, latency, isError);
+      }
+    });
+  }
+
+  const sequenceStats = toStats(sequences).filter((s) => s.count >= minCount);
+
+  return {
+    keys: toStats(keys).sort(bySlowest),
+    slowest: [...sequenceStats].sort(bySlowest).slice(0, limit),
+    mostErrors: sequenceStats
+      .filter((s) => s.errors > 0)
+      .sort(
+        (a, b) => b.errors / b.count - a.errors / a.count || b.errors - a.errors
+      )
+      .slice(0, limit),
+  };
+}
+
+function addSample(
+  samples: Map<string, Samples>,
+  sequence: string,
+  latency: number,
+  isError: boolean
+): void {
+  const entry = samples.get(sequence) ?? { latencies: [], errors: 0 };
+  entry.latencies.push(latency);
+  if (isError) entry.errors++;
+  samples.set(sequence, entry);
+}
+
+function toStats(samples: Map<string, Samples>): NGramStat[] {
+  return [...samples.entries()].map(([sequence, { latencies, errors }]) => ({
+    sequence,
+    count: latencies.length,
+    errors,
+    averageLatency: Math.round(
+      latencies.reduce((sum, l) => sum + l, 0) / latencies.length
+    ),
+    medianLatency: Math.round(median(latencies)),
+  }));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+const bySlowest = (a: NGramStat, b: NGramStat) =>
+  b.medianLatency - a.medianLatency || b.averageLatency - a.averageLatency;
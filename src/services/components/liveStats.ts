@@ -0,0 +1,164 @@
+import { LiveStats } from "../../models/SessionModel";
+import { countAlignedWrong } from "./calculations";
+import { isBackspace } from "./keystrokeReplay";
+import { alignChunk, nextPairing, toWords } from "./stringUtils";
+import { calculateGrossWPM, calculateNetWPM } from "./wpmCalculator";
+
+const BURST_WINDOW = 5000; // ms
+
+// Where the alignment stands after a pair of words
+interface AlignedPair {
+  t: number; // target words aligned so far
+  offset: number; // target characters aligned so far
+  inputOffset: number; // input characters aligned so far
+  wrong: number;
+  readUntil: number; // last input character the pair depends on
+}
+
+// countAlignedCorrect for input that only changes at its end. Pairs whose input words
+// are finished keep their alignment, so a key only aligns the last few words again.
+class AlignedCorrectCounter {
+  private targetWords: string[];
+  private settled: AlignedPair[] = [];
+
+  constructor(private targetText: string) {
+    this.targetWords = toWords(targetText);
+  }
+
+  // The input was cut back to length, pairs that read removed characters are dropped
+  public truncate(length: number): void {
+    while (
+      this.settled.length > 0 &&
+      this.settled[this.settled.length - 1].readUntil >= length
+    )
+      this.settled.pop();
+  }
+
+  public count(input: string): number {
+    let { t, offset, inputOffset, wrong } = this.settled[
+      this.settled.length - 1
+    ] ?? { t: 0, offset: 0, inputOffset: 0, wrong: 0 };
+
+    // Input words from the first one no settled pair holds
+    const inputWords = toWords(input.slice(inputOffset));
+    let i = 0;
+    let settling = true;
+
+    while (t < this.targetWords.length && i < inputWords.length) {
+      const [tCount, iCount] = nextPairing(this.targetWords, inputWords, t, i);
+      // Differing words are compared with up to two input words after them
+      const lastRead = this.targetWords[t] === inputWords[i] ? i : i + 2;
+
+      const targetChunk = this.targetWords.slice(t, t + tCount).join("");
+      const inputChunk = inputWords.slice(i, i + iCount).join("");
+      wrong += countAlignedWrong(alignChunk(targetChunk, inputChunk, offset));
+
+      // The last input word can still grow, so a pair that read it may change.
+      // Its end is only known once the next word has started.
+      settling = settling && lastRead < inputWords.length - 1;
+      if (settling)
+        this.settled.push({
+          t: t + tCount,
+          offset: offset + targetChunk.length,
+          inputOffset: inputOffset + inputChunk.length,
+          wrong,
+          readUntil:
+            inputOffset + inputWords.slice(i, lastRead + 1).join("").length,
+        });
+
+      t += tCount;
+      i += iCount;
+      offset += targetChunk.length;
+      inputOffset += inputChunk.length;
+    }
+
+    // Target words not reached are missing, input past the target costs nothing
+    wrong += this.targetText.length - offset;
+    return Math.max(0, this.targetText.length - wrong);
+  }
+}
+
+// Running totals for the live header, updated in O(1) per key instead of replaying
+// every keystroke. Follows the same rules as the final stats so both agree.
+// Net WPM needs the input aligned with the target, only its last words are aligned again.
+export class LiveStatsTracker {
+  private correctness: boolean[] = []; // one entry per input character
+  private correctChars = 0; // input characters that match the target at their position
+  private input = "";
+  private aligned: AlignedCorrectCounter;
+  private alignedCorrect: number | null = null; // cached until the input changes
+  private typedChars = 0; // keypresses other than backspace
+  private correctKeypresses = 0;
+  // Times of recent keypresses, a queue that starts at burstStart
+  private burst: number[] = [];
+  private burstStart = 0;
+
+  constructor(private targetText: string) {
+    this.aligned = new AlignedCorrectCounter(targetText);
+  }
+
+  public addKey(key: string, timestamp: number): void {
+    this.alignedCorrect = null;
+
+    if (isBackspace(key)) {
+      if (this.correctness.pop()) this.correctChars--;
+      this.input = this.input.slice(0, -1);
+      this.aligned.truncate(this.input.length);
+      return;
+    }
+
+    this.input += key;
+
+    const isCorrect = key === this.targetText[this.correctness.length];
+    this.correctness.push(isCorrect);
+    this.typedChars++;
+    if (isCorrect) {
+      this.correctChars++;
+      this.correctKeypresses++;
+    }
+
+    this.burst.push(timestamp);
+    this.dropBefore(timestamp - BURST_WINDOW);
+  }
+
+  // Speeds over the elapsed time, the burst over the last seconds before now
+  public getStats(elapsedSeconds: number, now: number): LiveStats {
+    this.dropBefore(now - BURST_WINDOW);
+
+    const minutes = elapsedSeconds / 60;
+    // Early in a session the window is only as long as the session
+    const burstMinutes = Math.min(BURST_WINDOW / 1000, elapsedSeconds) / 60;
+    const accuracy =
+      this.typedChars > 0
+        ? (this.correctKeypresses / this.typedChars) * 100
+        : 100;
+
+    if (this.alignedCorrect === null)
+      this.alignedCorrect = this.aligned.count(this.input);
+
+    return {
+      wpm: calculateNetWPM(this.alignedCorrect, minutes),
+      rawWpm: calculateGrossWPM(this.typedChars, minutes),
+      burstWpm: calculateGrossWPM(
+        this.burst.length - this.burstStart,
+        burstMinutes
+      ),
+      accuracy: Math.round(accuracy * 100) / 100,
+      errors: this.correctness.length - this.correctChars,
+    };
+  }
+
+  private dropBefore(time: number): void {
+    while (
+      this.burstStart < this.burst.length &&
+      this.burst[this.burstStart] < time
+    )
+      this.burstStart++;
+
+    // Compacted now and then, so the queue stays as long as the window
+    if (this.burstStart > this.burst.length / 2) {
+      this.burst = this.burst.slice(this.burstStart);
+      this.burstStart = 0;
+    }
+  }
+}
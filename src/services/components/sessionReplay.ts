@@ -0,0 +1,107 @@
+import { ReplayFrame } from "../../models/SessionModel";
+import { TypingSession } from "../../models/TypingModel";
+import { LiveStatsTracker } from "./liveStats";
+import { replayKeystrokes, ReplayStep } from "./keystrokeReplay";
+
+export type ReplaySource = Pick<
+  TypingSession,
+  "keystrokes" | "targetText" | "startTime" | "endTime"
+>;
+
+// Dates arrive as ISO strings once a session has crossed the message channel
+const toMillis = (value: Date | string | null): number | undefined => {
+  const time = value === null ? NaN : new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+};
+
+// A session's input and live stats at any point of its recording, times in ms since it started.
+// Stats come from the same tracker as the live header, so a replay shows what was seen then.
+export class ReplayTimeline {
+  public readonly duration: number;
+  private steps: ReplayStep[];
+  private start: number;
+
+  // Tracker fed with the first trackedCount keys, reused while time moves forward
+  private tracker: LiveStatsTracker;
+  private trackedCount = 0;
+  private trackedTime = 0;
+
+  constructor(private session: ReplaySource) {
+    const { keystrokes, targetText } = session;
+    const first = keystrokes[0]?.timestamp;
+    const last = keystrokes[keystrokes.length - 1]?.timestamp;
+    const startTime = toMillis(session.startTime);
+    const endTime = toMillis(session.endTime);
+
+    this.start = Math.min(startTime ?? first ?? 0, first ?? Infinity);
+    // A timed session runs on after its last key, until the timer ended it
+    const end = Math.max(endTime ?? -Infinity, last ?? -Infinity);
+    this.duration = Number.isFinite(end) ? Math.max(0, end - this.start) : 0;
+
+    this.steps = replayKeystrokes(keystrokes, targetText);
+    this.tracker = new LiveStatsTracker(targetText);
+  }
+
+  // Time of each keystroke, for markers on a scrub bar
+  public getKeyTimes(): number[] {
+    return this.steps.map((step) => step.keystroke.timestamp - this.start);
+  }
+
+  // Time of the first keystroke after time, undefined when none is left
+  public nextKeyTime(time: number): number | undefined {
+    const next = this.countAt(time);
+    return next < this.steps.length
+      ? this.steps[next].keystroke.timestamp - this.start
+      : undefined;
+  }
+
+  public frameAt(time: number): ReplayFrame {
+    time = Math.min(Math.max(0, time), this.duration);
+    const keyCount = this.countAt(time);
+
+    // The burst window forgets old keys, so going back means starting over
+    if (keyCount < this.trackedCount || time < this.trackedTime) {
+      this.tracker = new LiveStatsTracker(this.session.targetText);
+      this.trackedCount = 0;
+    }
+    for (; this.trackedCount < keyCount; this.trackedCount++) {
+      const { keystroke } = this.steps[this.trackedCount];
+      this.tracker.addKey(keystroke.key, keystroke.timestamp);
+    }
+    this.trackedTime = time;
+
+    // Positions where a wrong character was typed and erased again
+    const corrected = new Set<number>();
+    for (const step of this.steps.slice(0, keyCount))
+      if (step.isBackspace && step.char !== undefined && !step.isCorrect)
+        corrected.add(step.position);
+
+    const elapsed = time / 1000;
+    return {
+      time,
+      keyCount,
+      input: keyCount > 0 ? this.steps[keyCount - 1].input : "",
+      correctedPositions: [...corrected].sort((a, b) => a - b),
+      // Avoid division by very small numbers, like the live header
+      stats: this.tracker.getStats(
+        elapsed <= 0.01 ? 0 : elapsed,
+        this.start + time
+      ),
+    };
+  }
+
+  // Keystrokes at or before time, found by binary search
+  private countAt(time: number): number {
+    let low = 0;
+    let high = this.steps.length;
+
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.steps[middle].keystroke.timestamp - this.start <= time)
+        low = middle + 1;
+      else high = middle;
+    }
+
+    return low;
+  }
+}
@@ -0,0 +1,37 @@
+import { SessionRecord, SessionSummary } from "../../models/SessionModel";
+
+// Drops the text, keystrokes, per-character errors and latencies, which make up most of a record
+export function toSessionSummary(record: SessionRecord): SessionSummary {
+  const { targetText, userInput, keystrokes, ...session } = record.session;
+  const {
+    errorPatterns,
+    allErrorPatterns,
+    keystrokeErrors,
+    wordErrors,
+    latency,
+    ...stats
+  } = record.stats;
+  return { ...record, session, stats };
+}
+
+// A record standing in for a session whose details stayed on another machine
+export function fromSessionSummary(summary: SessionSummary): SessionRecord {
+  return {
+    ...summary,
+    session: {
+      ...summary.session,
+      targetText: "",
+      userInput: "",
+      keystrokes: [],
+    },
+    stats: {
+      ...summary.stats,
+      errorPatterns: [],
+      allErrorPatterns: [],
+      keystrokeErrors: [],
+      wordErrors: [],
+      latency: { keys: [], slowest: [], mostErrors: [] },
+    },
+    summaryOnly: true,
+  };
+}
@@ -1,26 +1,39 @@
 import { ErrorFound } from "../../models/TypingModel";
 
+// Only two rows of the matrix are kept, the distance needs nothing else
 export function levenshteinDistance(target: string, input: string): number {
-  const targetLen = target.length;
-  const inputLen = input.length;
+  let previous = Array.from({ length: input.length + 1 }, (_, j) => j);
 
-  // Create a matrix
-  const matrix = Array(targetLen + 1)
-    .fill(null)
-    .map(() => Array(inputLen + 1).fill(0));
+  for (let i = 1; i <= target.length; i++) {
+    const current = [i];
 
-  // Initialize: convert empty string to target prefixes (filling the first row)
-  for (let i = 0; i <= targetLen; i++) {
-    matrix[i][0] = i;
-  }
-  // Initialize: convert input prefixes to empty string (filling the first column)
-  for (let j = 0; j <= inputLen; j++) {
-    matrix[0][j] = j;
+    for (let j = 1; j <= input.length; j++) {
+      const substitutionCost = target[i - 1] === input[j - 1] ? 0 : 1;
+
+      current[j] = Math.min(
+        previous[j] + 1, // deletion
+        current[j - 1] + 1, // insertion
+        previous[j - 1] + substitutionCost // substitution
+      );
+    }
+
+    previous = current;
   }
 
-  // Fill the rest of the matrix
-  for (let i = 1; i <= targetLen; i++) {
-    for (let j = 1; j <= inputLen; j++) {
+  return previous[input.length];
+}
+
+// Edit distance where swapping two neighbouring characters is one edit
+// (optimal string alignment). The full matrix is returned for the backtrace.
+function damerauLevenshteinMatrix(target: string, input: string): number[][] {
+  const matrix = Array.from({ length: target.length + 1 }, (_, i) =>
+    Array.from({ length: input.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0
+    )
+  );
+
+  for (let i = 1; i <= target.length; i++) {
+    for (let j = 1; j <= input.length; j++) {
       const substitutionCost = target[i - 1] === input[j - 1] ? 0 : 1;
 
       matrix[i][j] = Math.min(
@@ -28,84 +41,159 @@ export function levenshteinDistance(target: string, input: string): number {
         matrix[i][j - 1] + 1, // insertion
         matrix[i - 1][j - 1] + substitutionCost // substitution
       );
+
+      if (isTransposition(target, input, i, j))
+        matrix[i][j] = Math.min(matrix[i][j], matrix[i - 2][j - 2] + 1);
     }
   }
 
-  return matrix[targetLen][inputLen];
+  return matrix;
 }
 
-export function findAlignedErrors(
+const isTransposition = (target: string, input: string, i: number, j: number) =>
+  i > 1 &&
+  j > 1 &&
+  target[i - 1] === input[j - 2] &&
+  target[i - 2] === input[j - 1] &&
+  target[i - 1] !== target[i - 2];
+
+const damerauLevenshteinDistance = (target: string, input: string) =>
+  damerauLevenshteinMatrix(target, input)[target.length][input.length];
+
+// Errors along one cheapest alignment, positions relative to the start of the target.
+// Ties prefer a match or substitution, then a transposition, so the errors stay in place.
+export function alignChunk(
   target: string,
-  input: string
-): Array<ErrorFound> {
+  input: string,
+  offset: number
+): ErrorFound[] {
+  const matrix = damerauLevenshteinMatrix(target, input);
   const errors: ErrorFound[] = [];
 
-  let targetIndex = 0;
-  let inputIndex = 0;
+  let i = target.length;
+  let j = input.length;
 
-  while (targetIndex < target.length || inputIndex < input.length) {
-    if (targetIndex >= target.length) {
-      // We've reached the end of target but still have input characters (insertion)
+  while (i > 0 || j > 0) {
+    const cost = matrix[i][j];
+
+    if (
+      i > 0 &&
+      j > 0 &&
+      cost === matrix[i - 1][j - 1] + (target[i - 1] === input[j - 1] ? 0 : 1)
+    ) {
+      if (target[i - 1] !== input[j - 1])
+        errors.push({
+          expectedChar: target[i - 1],
+          actualChar: input[j - 1],
+          position: offset + i - 1,
+          type: "substitution",
+        });
+      i--;
+      j--;
+    } else if (
+      isTransposition(target, input, i, j) &&
+      cost === matrix[i - 2][j - 2] + 1
+    ) {
       errors.push({
-        expectedChar: null,
-        actualChar: input[inputIndex],
-        position: targetIndex,
-        type: "insertion" as const,
+        expectedChar: target[i - 2],
+        actualChar: input[j - 2],
+        position: offset + i - 2,
+        type: "transposition",
       });
-      inputIndex++;
-    } else if (inputIndex >= input.length) {
-      // We've reached the end of input but still have target characters (deletion)
+      i -= 2;
+      j -= 2;
+    } else if (i > 0 && cost === matrix[i - 1][j] + 1) {
       errors.push({
-        expectedChar: target[targetIndex],
+        expectedChar: target[i - 1],
         actualChar: null,
-        position: targetIndex,
-        type: "deletion" as const,
+        position: offset + i - 1,
+        type: "deletion",
       });
-      targetIndex++;
-    } else if (target[targetIndex] === input[inputIndex]) {
-      targetIndex++;
-      inputIndex++;
+      i--;
     } else {
-      const nextTargetInInput = input.indexOf(
-        target[targetIndex],
-        inputIndex + 1
-      );
-      const nextInputInTarget = target.indexOf(
-        input[inputIndex],
-        targetIndex + 1
-      );
-
-      if (
-        nextTargetInInput !== -1 &&
-        (nextInputInTarget === -1 ||
-          nextTargetInInput - inputIndex < nextInputInTarget - targetIndex)
-      ) {
-        errors.push({
-          expectedChar: null,
-          actualChar: input[inputIndex],
-          position: targetIndex,
-          type: "insertion" as const,
-        });
-        inputIndex++;
-      } else if (nextInputInTarget !== -1) {
-        errors.push({
-          expectedChar: target[targetIndex],
-          actualChar: null,
-          position: targetIndex,
-          type: "deletion" as const,
-        });
-        targetIndex++;
-      } else {
-        errors.push({
-          expectedChar: target[targetIndex],
-          actualChar: input[inputIndex],
-          position: targetIndex,
-          type: "substitution" as const,
-        });
-        targetIndex++;
-        inputIndex++;
-      }
+      errors.push({
+        expectedChar: null,
+        actualChar: input[j - 1],
+        position: offset + i,
+        type: "insertion",
+      });
+      j--;
     }
   }
+
+  return errors.reverse();
+}
+
+// Words with the whitespace that follows them, so a missed space belongs to its word
+export const toWords = (text: string) => text.match(/\s*\S+\s*|\s+/g) ?? [];
+
+// How many words of the target and of the input to align with each other next
+const PAIRINGS: [number, number][] = [
+  [1, 1],
+  [2, 1], // a missed space joined two words
+  [1, 2], // an extra space split a word
+];
+
+const join = (words: string[], from: number, count: number) =>
+  words.slice(from, from + count).join("");
+
+// How many target and input words, from words t and i on, to align with each other.
+// Where the words differ, the next two steps of each pairing are compared, so one
+// joined or split word does not shift every word after it.
+export function nextPairing(
+  targetWords: string[],
+  inputWords: string[],
+  t: number,
+  i: number
+): [number, number] {
+  if (
+    t >= targetWords.length ||
+    i >= inputWords.length ||
+    targetWords[t] === inputWords[i]
+  )
+    return PAIRINGS[0];
+
+  const pairCost = (
+    tFrom: number,
+    iFrom: number,
+    [tCount, iCount]: [number, number]
+  ) =>
+    damerauLevenshteinDistance(
+      join(targetWords, tFrom, tCount),
+      join(inputWords, iFrom, iCount)
+    );
+  const lookahead = ([tCount, iCount]: [number, number]) =>
+    pairCost(t, i, [tCount, iCount]) + pairCost(t + tCount, i + iCount, [1, 1]);
+
+  const costs = PAIRINGS.map(lookahead);
+  return PAIRINGS[costs.indexOf(Math.min(...costs))];
+}
+
+// Aligns the texts word by word, so the matrices stay as small as single words
+export function findAlignedErrors(
+  target: string,
+  input: string
+): Array<ErrorFound> {
+  const targetWords = toWords(target);
+  const inputWords = toWords(input);
+  const errors: ErrorFound[] = [];
+
+  let t = 0;
+  let i = 0;
+  let offset = 0;
+
+  while (t < targetWords.length || i < inputWords.length) {
+    const [tCount, iCount] = nextPairing(targetWords, inputWords, t, i);
+    const targetChunk = join(targetWords, t, tCount);
+
+    errors.push(
+      ...alignChunk(targetChunk, join(inputWords, i, iCount), offset)
+    );
+
+    offset += targetChunk.length;
+    t += tCount;
+    i += iCount;
+  }
+
   return errors;
 }
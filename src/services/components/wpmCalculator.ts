@@ -1,18 +1,58 @@
-export function calculateWPM(
-  correctWords: number,
+import { calculateCorrectWords, countAlignedCorrect } from "./calculations";
+
+// Standard typing test word length, so speeds compare across texts
+export const CHARS_PER_WORD = 5;
+
+export interface TypingSpeed {
+  net: number; // correct characters as standard words per minute
+  words: number; // target words typed exactly right per minute
+  raw: number; // every typed character, mistakes and corrected ones included
+}
+
+// One engine for the live header and the saved stats, so both report the same speed
+export function calculateSpeed(
+  targetText: string,
+  userInput: string,
+  typedChars: number,
+  timeInMinutes: number
+): TypingSpeed {
+  return {
+    net: calculateNetWPM(
+      countAlignedCorrect(targetText, userInput),
+      timeInMinutes
+    ),
+    words: calculateWordsWPM(
+      calculateCorrectWords(targetText, userInput),
+      timeInMinutes
+    ),
+    raw: calculateGrossWPM(typedChars, timeInMinutes),
+  };
+}
+
+export function calculateNetWPM(
+  correctChars: number,
   timeInMinutes: number
 ): number {
-  if (timeInMinutes < 0) return 0;
+  return perMinute(correctChars / CHARS_PER_WORD, timeInMinutes);
+}
 
-  return Math.round(correctWords / timeInMinutes);
+export function calculateWordsWPM(
+  correctWords: number,
+  timeInMinutes: number
+): number {
+  return perMinute(correctWords, timeInMinutes);
 }
 
 export function calculateGrossWPM(
   totalTypedChars: number,
   timeInMinutes: number
 ): number {
-  if (timeInMinutes <= 0) return 0;
+  return perMinute(totalTypedChars / CHARS_PER_WORD, timeInMinutes);
+}
+
+// No elapsed time means no speed yet, rather than Infinity or NaN
+function perMinute(words: number, timeInMinutes: number): number {
+  if (!Number.isFinite(timeInMinutes) || timeInMinutes <= 0) return 0;
 
-  const words = totalTypedChars / 5;
   return Math.round(words / timeInMinutes);
 }
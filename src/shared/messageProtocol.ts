@@ -0,0 +1,343 @@
+// Message protocol shared by the extension host and the React webview.
+// This file is compiled by both tsconfigs, so it must stay free of vscode and DOM imports.
+import {
+  CustomParagraph,
+  ExtensionSettings,
+  SyncScope,
+  TypingSession,
+  TypingStats,
+} from "../models/TypingModel";
+import {
+  HistoryFilters,
+  HistoryStats,
+  SessionConfig,
+  SessionHistoryPage,
+  SessionRecord,
+  SessionMode,
+  SessionUpdate,
+  TrendPeriod,
+} from "../models/SessionModel";
+import { KeyboardLayoutName, KeyHeatmap } from "../models/KeyboardModel";
+
+// Bump whenever a message or payload shape changes incompatibly
+export const PROTOCOL_VERSION = 4;
+
+// Sessions per history page, also what the showHistory command sends
+export const HISTORY_PAGE_SIZE = 50;
+
+// Payload carried by each message type, `undefined` means the message has no payload
+export interface WebviewMessagePayloads {
+  ready: undefined; // the app mounted and listens for messages
+  getParagraphs: undefined;
+  startSession: SessionConfig;
+  endSession: undefined;
+  pauseSession: undefined;
+  resumeSession: undefined;
+  keystroke: { character: string };
+  getSessionHistory: { offset: number; limit: number };
+  getSession: { id: string }; // the full record, e.g. for a replay
+  getHistoryStats: { filters: HistoryFilters; period: TrendPeriod };
+  getKeyHeatmap: { ids: string[]; layout: KeyboardLayoutName };
+  deleteSession: { id: string };
+  getSettings: undefined;
+  updateSettings: Partial<ExtensionSettings>;
+  saveParagraph: CustomParagraph;
+  deleteParagraph: { id: string };
+}
+
+export type ErrorCode =
+  | "invalidMessage"
+  | "unsupportedVersion"
+  | "handlerFailed";
+
+// Reply for requests that have no natural response message
+export interface Acknowledgement {
+  requestType: WebviewMessageType;
+}
+
+export interface ExtensionMessagePayloads {
+  paragraphsLoaded: CustomParagraph[];
+  sessionStarted: { sessionId: string; config: SessionConfig };
+  sessionUpdate: SessionUpdate;
+  sessionCompleted: { session: TypingSession; stats: TypingStats };
+  sessionHistoryLoaded: SessionHistoryPage;
+  sessionLoaded: SessionRecord;
+  historyStatsLoaded: HistoryStats;
+  keyHeatmapLoaded: KeyHeatmap;
+  settingsLoaded: ExtensionSettings;
+  error: { code: ErrorCode; message: string; details?: unknown };
+  ack: Acknowledgement;
+}
+
+export type WebviewMessageType = keyof WebviewMessagePayloads;
+export type ExtensionMessageType = keyof ExtensionMessagePayloads;
+
+// requestId is set by the sender of a request and echoed back on its reply
+type MessageOf<
+  Payloads,
+  K extends keyof Payloads
+> = Payloads[K] extends undefined
+  ? { type: K; version: number; requestId?: string }
+  : { type: K; version: number; requestId?: string; payload: Payloads[K] };
+
+export type WebviewMessage = {
+  [K in WebviewMessageType]: MessageOf<WebviewMessagePayloads, K>;
+}[WebviewMessageType];
+
+export type ExtensionMessage = {
+  [K in ExtensionMessageType]: MessageOf<ExtensionMessagePayloads, K>;
+}[ExtensionMessageType];
+
+// Which extension message answers each request. A failed request is always answered with "error".
+export const RESPONSE_TYPES = {
+  ready: "ack",
+  getParagraphs: "paragraphsLoaded",
+  startSession: "sessionStarted",
+  endSession: "ack",
+  pauseSession: "ack",
+  resumeSession: "ack",
+  keystroke: "ack",
+  getSessionHistory: "sessionHistoryLoaded",
+  getSession: "sessionLoaded",
+  getHistoryStats: "historyStatsLoaded",
+  getKeyHeatmap: "keyHeatmapLoaded",
+  deleteSession: "ack",
+  getSettings: "settingsLoaded",
+  updateSettings: "settingsLoaded",
+  saveParagraph: "paragraphsLoaded",
+  deleteParagraph: "paragraphsLoaded",
+} as const satisfies Record<WebviewMessageType, ExtensionMessageType>;
+
+export type ResponsePayload<K extends WebviewMessageType> =
+  ExtensionMessagePayloads[(typeof RESPONSE_TYPES)[K]];
+
+// Rest-parameter tuple so messages without a payload take no second argument
+export type PayloadArgs<
+  Payloads,
+  K extends keyof Payloads
+> = Payloads[K] extends undefined ? [] : [payload: Payloads[K]];
+
+export function createWebviewMessage<K extends WebviewMessageType>(
+  type: K,
+  ...args: PayloadArgs<WebviewMessagePayloads, K>
+): MessageOf<WebviewMessagePayloads, K> {
+  return createMessage(type, args) as MessageOf<WebviewMessagePayloads, K>;
+}
+
+export function createExtensionMessage<K extends ExtensionMessageType>(
+  type: K,
+  ...args: PayloadArgs<ExtensionMessagePayloads, K>
+): MessageOf<ExtensionMessagePayloads, K> {
+  return createMessage(type, args) as MessageOf<ExtensionMessagePayloads, K>;
+}
+
+function createMessage(type: string, args: unknown[]) {
+  return args.length > 0
+    ? { type, version: PROTOCOL_VERSION, payload: args[0] }
+    : { type, version: PROTOCOL_VERSION };
+}
+
+// Runtime Validation //
+
+export type MessageValidationResult =
+  | { valid: true; message: WebviewMessage }
+  | { valid: false; code: ErrorCode; error: string; requestId?: string };
+
+const SESSION_MODES: SessionMode[] = ["tick-tick", "words", "passage"];
+const THEMES: ExtensionSettings["theme"][] = ["light", "dark", "auto"];
+const DIFFICULTIES = ["easy", "medium", "hard"];
+const SYNC_SCOPES: SyncScope[] = ["paragraphs", "sessions"];
+const KEYBOARD_LAYOUTS: KeyboardLayoutName[] = ["qwerty", "dvorak", "colemak"];
+const TREND_PERIODS: TrendPeriod[] = ["day", "week"];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const isOneOf = <T>(values: readonly T[], value: unknown): value is T =>
+  values.includes(value as T);
+
+const isCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+// yyyy-mm-dd as a date input gives it, or empty for no bound
+const isDateFilter = (value: unknown) =>
+  typeof value === "string" &&
+  (value === "" || /^\d{4}-\d{2}-\d{2}$/.test(value));
+
+const hasNoPayload = (payload: unknown) => payload === undefined;
+
+// One payload check per message type, the Record type forces new messages to add one
+const payloadValidators: Record<
+  WebviewMessageType,
+  (payload: unknown) => boolean
+> = {
+  ready: hasNoPayload,
+  getParagraphs: hasNoPayload,
+  endSession: hasNoPayload,
+  pauseSession: hasNoPayload,
+  resumeSession: hasNoPayload,
+  getSettings: hasNoPayload,
+
+  startSession: (payload) =>
+    isObject(payload) &&
+    typeof payload.sessionId === "string" &&
+    isOneOf(SESSION_MODES, payload.mode) &&
+    typeof payload.target === "number" &&
+    Number.isFinite(payload.target) &&
+    payload.target >= 0 &&
+    isNonEmptyString(payload.targetText) &&
+    (payload.paragraphId === undefined ||
+      isNonEmptyString(payload.paragraphId)),
+
+  keystroke: (payload) =>
+    isObject(payload) &&
+    typeof payload.character === "string" &&
+    payload.character.length > 0,
+
+  updateSettings: (payload) => {
+    if (!isObject(payload)) return false;
+
+    return Object.entries(payload).every(([key, value]) => {
+      switch (key) {
+        case "defaultTimer":
+          return typeof value === "number" && value > 0;
+        case "showRealTimeStats":
+          return typeof value === "boolean";
+        case "theme":
+          return isOneOf(THEMES, value);
+        case "historyRetentionDays":
+          return isCount(value);
+        case "syncScope":
+          return (
+            Array.isArray(value) &&
+            value.every((scope) => isOneOf(SYNC_SCOPES, scope))
+          );
+        default:
+          return false; // unknown settings keys are rejected
+      }
+    });
+  },
+
+  // dateAdded arrives as an ISO string since messages are JSON serialized
+  saveParagraph: (payload) =>
+    isObject(payload) &&
+    isNonEmptyString(payload.id) &&
+    isNonEmptyString(payload.title) &&
+    isNonEmptyString(payload.content) &&
+    (typeof payload.dateAdded === "string" ||
+      payload.dateAdded instanceof Date) &&
+    (payload.difficulty === undefined ||
+      isOneOf(DIFFICULTIES, payload.difficulty)) &&
+    (payload.category === undefined || typeof payload.category === "string"),
+
+  getSessionHistory: (payload) =>
+    isObject(payload) &&
+    isCount(payload.offset) &&
+    isCount(payload.limit) &&
+    payload.limit > 0,
+
+  getSession: (payload) => isObject(payload) && isNonEmptyString(payload.id),
+
+  getHistoryStats: (payload) =>
+    isObject(payload) &&
+    isObject(payload.filters) &&
+    (payload.filters.mode === "all" ||
+      isOneOf(SESSION_MODES, payload.filters.mode)) &&
+    typeof payload.filters.category === "string" &&
+    isDateFilter(payload.filters.from) &&
+    isDateFilter(payload.filters.to) &&
+    isOneOf(TREND_PERIODS, payload.period),
+
+  getKeyHeatmap: (payload) =>
+    isObject(payload) &&
+    Array.isArray(payload.ids) &&
+    payload.ids.every(isNonEmptyString) &&
+    isOneOf(KEYBOARD_LAYOUTS, payload.layout),
+
+  deleteSession: (payload) => isObject(payload) && isNonEmptyString(payload.id),
+
+  deleteParagraph: (payload) =>
+    isObject(payload) && isNonEmptyString(payload.id),
+};
+
+export function validateWebviewMessage(raw: unknown): MessageValidationResult {
+  const result = checkWebviewMessage(raw);
+
+  // Echo the request id on rejections too, so the sender can match the error
+  if (!result.valid && isObject(raw) && isNonEmptyString(raw.requestId))
+    return { ...result, requestId: raw.requestId };
+
+  return result;
+}
+
+function checkWebviewMessage(raw: unknown): MessageValidationResult {
+  if (!isObject(raw))
+    return {
+      valid: false,
+      code: "invalidMessage",
+      error: "Message must be an object",
+    };
+
+  // Own keys only, "toString" or "__proto__" must not pass as message types
+  if (
+    typeof raw.type !== "string" ||
+    !Object.prototype.hasOwnProperty.call(payloadValidators, raw.type)
+  )
+    return {
+      valid: false,
+      code: "invalidMessage",
+      error: `Unknown message type: ${String(raw.type)}`,
+    };
+
+  if (raw.requestId !== undefined && !isNonEmptyString(raw.requestId))
+    return {
+      valid: false,
+      code: "invalidMessage",
+      error: "requestId must be a non-empty string",
+    };
+
+  if (raw.version !== PROTOCOL_VERSION)
+    return {
+      valid: false,
+      code: "unsupportedVersion",
+      error: `Unsupported protocol version ${String(
+        raw.version
+      )}, expected ${PROTOCOL_VERSION}`,
+    };
+
+  const validatePayload = payloadValidators[raw.type as WebviewMessageType];
+  if (!validatePayload(raw.payload))
+    return {
+      valid: false,
+      code: "invalidMessage",
+      error: `Invalid payload for message type: ${raw.type}`,
+    };
+
+  return { valid: true, message: raw as WebviewMessage };
+}
+
+const EXTENSION_MESSAGE_TYPES: ExtensionMessageType[] = [
+  "paragraphsLoaded",
+  "sessionStarted",
+  "sessionUpdate",
+  "sessionCompleted",
+  "sessionHistoryLoaded",
+  "sessionLoaded",
+  "historyStatsLoaded",
+  "keyHeatmapLoaded",
+  "settingsLoaded",
+  "error",
+  "ack",
+];
+
+// The webview trusts payloads from the extension, it only filters out foreign messages
+export function isExtensionMessage(raw: unknown): raw is ExtensionMessage {
+  return (
+    isObject(raw) &&
+    raw.version === PROTOCOL_VERSION &&
+    isOneOf(EXTENSION_MESSAGE_TYPES, raw.type)
+  );
+}
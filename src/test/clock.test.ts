@@ -0,0 +1,38 @@
+import * as assert from "assert";
+import { VirtualClock } from "../services/components/clock";
+
+suite("Clock Tests", () => {
+  test("should run due timers in order at their own time", () => {
+    const clock = new VirtualClock(100);
+    const fired: [string, number][] = [];
+
+    clock.schedule(() => fired.push(["late", clock.now()]), 300);
+    clock.schedule(() => {
+      fired.push(["early", clock.now()]);
+      clock.schedule(() => fired.push(["nested", clock.now()]), 50);
+    }, 100);
+    clock.schedule(() => fired.push(["outside", clock.now()]), 1000);
+
+    clock.advance(500);
+
+    assert.deepStrictEqual(fired, [
+      ["early", 200],
+      ["nested", 250],
+      ["late", 400],
+    ]);
+    assert.strictEqual(clock.now(), 600);
+    assert.strictEqual(clock.getPendingCount(), 1);
+  });
+
+  test("should not run cancelled timers", () => {
+    const clock = new VirtualClock();
+    let fired = false;
+
+    const cancel = clock.schedule(() => (fired = true), 10);
+    cancel();
+    clock.setTime(50);
+
+    assert.strictEqual(fired, false);
+    assert.strictEqual(clock.getPendingCount(), 0);
+  });
+});
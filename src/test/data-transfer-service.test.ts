@@ -0,0 +1,300 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import {
+  DataTransferService,
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+} from "../services/DataTransferService";
+import { StorageService } from "../services/StorageService";
+import { CustomParagraph, TypingSession } from "../models/TypingModel";
+import { createFakeConfiguration } from "./fakeConfiguration";
+
+suite("DataTransferService Tests", () => {
+  let storageDirs: string[];
+
+  // Each machine gets its own globalState and storage folder
+  const createStorage = () => {
+    const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), "typesh-data-"));
+    storageDirs.push(storageDir);
+    const mockStorage = new Map<string, any>();
+    const { configuration } = createFakeConfiguration();
+
+    return new StorageService(
+      {
+        globalStorageUri: vscode.Uri.file(storageDir),
+        globalState: {
+          get: (key: string, defaultValue: any) =>
+            mockStorage.get(key) ?? defaultValue,
+          update: (key: string, value: any) => {
+            mockStorage.set(key, value);
+            return Promise.resolve();
+          },
+        },
+      } as unknown as vscode.ExtensionContext,
+      () => configuration
+    );
+  };
+
+  function createSession(id: string): TypingSession {
+    return {
+      id,
+      startTime: new Date(Date.now() - 60000),
+      endTime: new Date(),
+      targetText: "hello world",
+      userInput: "hello world",
+      keystrokes: [],
+      timerDuration: 60,
+      isCompleted: true,
+    };
+  }
+
+  function createParagraph(id: string): CustomParagraph {
+    return {
+      id,
+      title: `Paragraph ${id}`,
+      content: "Some practice text",
+      dateAdded: new Date(),
+    };
+  }
+
+  // Round-trips through JSON the way the export file does
+  const asFile = (data: unknown) => JSON.parse(JSON.stringify(data));
+
+  setup(() => {
+    storageDirs = [];
+  });
+
+  teardown(() => {
+    storageDirs.forEach((dir) =>
+      fs.rmSync(dir, { recursive: true, force: true })
+    );
+  });
+
+  test("should export and import everything into an empty store", async () => {
+    const source = createStorage();
+    await source.saveSession(createSession("s1"));
+    await source.saveSession(createSession("s2"));
+    await source.saveCustomParagraph(createParagraph("p1"));
+    await source.saveSettings({
+      defaultTimer: 30,
+      showRealTimeStats: false,
+      theme: "dark",
+    });
+
+    const exported = await new DataTransferService(source).createExport();
+    assert.strictEqual(exported.format, EXPORT_FORMAT);
+    assert.strictEqual(exported.version, EXPORT_VERSION);
+
+    const target = createStorage();
+    const result = await new DataTransferService(target).importData(
+      asFile(exported),
+      "merge"
+    );
+
+    assert.deepStrictEqual(result, {
+      sessionsImported: 2,
+      paragraphsImported: 1,
+      settingsImported: true,
+      duplicates: 0,
+      rejected: [],
+    });
+    assert.strictEqual((await target.getAllSessions()).length, 2);
+    assert.strictEqual((await target.getSettings()).defaultTimer, 30);
+
+    const [session] = await target.getAllSessions();
+    assert.ok(session.endTime instanceof Date, "Dates should be revived");
+  });
+
+  test("should keep synced summaries and their stats", async () => {
+    const source = createStorage();
+    const record = await source.saveSession(createSession("s1"));
+    await source.saveSyncedRecords([
+      {
+        ...record,
+        session: {
+          ...record.session,
+          id: "synced",
+          targetText: "",
+          userInput: "",
+        },
+        stats: { ...record.stats, wpm: 123 },
+        analyzerVersion: record.analyzerVersion - 1,
+        summaryOnly: true,
+      },
+    ]);
+
+    const exported = await new DataTransferService(source).createExport();
+    const target = createStorage();
+    await new DataTransferService(target).importData(asFile(exported), "merge");
+
+    const synced = (await target.getSessionRecords()).find(
+      (r) => r.session.id === "synced"
+    );
+    assert.strictEqual(synced?.summaryOnly, true);
+    assert.strictEqual(synced?.stats.wpm, 123, "Nothing to analyze again");
+  });
+
+  test("should skip ids that already exist when merging", async () => {
+    const storage = createStorage();
+    await storage.saveSession(createSession("existing"));
+    await storage.saveCustomParagraph(createParagraph("p-existing"));
+
+    const result = await new DataTransferService(storage).importData(
+      asFile({
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        sessions: [
+          createSession("existing"),
+          createSession("new"),
+          createSession("new"),
+        ],
+        paragraphs: [
+          createParagraph("p-existing"),
+          createParagraph("default-1"),
+        ],
+      }),
+      "merge"
+    );
+
+    assert.strictEqual(result.sessionsImported, 1);
+    assert.strictEqual(result.paragraphsImported, 0);
+    assert.strictEqual(result.duplicates, 4);
+    assert.deepStrictEqual(
+      (await storage.getAllSessions()).map((s) => s.id).sort(),
+      ["existing", "new"]
+    );
+    assert.strictEqual((await storage.getCustomParagraphs()).length, 1);
+  });
+
+  test("should drop existing data when replacing", async () => {
+    const storage = createStorage();
+    await storage.saveSession(createSession("old"));
+    await storage.saveCustomParagraph(createParagraph("p-old"));
+
+    await new DataTransferService(storage).importData(
+      asFile({
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        sessions: [createSession("new")],
+        paragraphs: [createParagraph("p-new")],
+      }),
+      "replace"
+    );
+
+    assert.deepStrictEqual(
+      (await storage.getAllSessions()).map((s) => s.id),
+      ["new"]
+    );
+    assert.deepStrictEqual(
+      (await storage.getCustomParagraphs()).map((p) => p.id),
+      ["p-new"]
+    );
+  });
+
+  test("should keep existing sessions when replacing them fails", async () => {
+    const storage = createStorage();
+    await storage.saveSession(createSession("old"));
+
+    // The store cannot write anything anymore
+    (storage as any).sessionStore.writeFile = () =>
+      Promise.reject(new Error("Disk full"));
+
+    await assert.rejects(
+      new DataTransferService(storage).importData(
+        asFile({
+          format: EXPORT_FORMAT,
+          version: EXPORT_VERSION,
+          sessions: [createSession("new")],
+        }),
+        "replace"
+      ),
+      /Disk full/
+    );
+    assert.deepStrictEqual(
+      (await storage.getAllSessions()).map((s) => s.id),
+      ["old"]
+    );
+  });
+
+  test("should report rejected records and import the rest", async () => {
+    const storage = createStorage();
+
+    const result = await new DataTransferService(storage).importData(
+      asFile({
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        sessions: [
+          createSession("good"),
+          { id: "" },
+          { ...createSession("no-times"), startTime: null },
+        ],
+        paragraphs: [createParagraph("p1"), { id: "p2", title: "No content" }],
+        settings: { defaultTimer: -5 },
+      }),
+      "merge"
+    );
+
+    assert.strictEqual(result.sessionsImported, 1);
+    assert.strictEqual(result.paragraphsImported, 1);
+    assert.strictEqual(result.settingsImported, false);
+    assert.deepStrictEqual(
+      result.rejected.map((r) => [r.kind, r.index]),
+      [
+        ["session", 1],
+        ["session", 2],
+        ["paragraph", 1],
+        ["settings", undefined],
+      ]
+    );
+    assert.strictEqual(result.rejected[1].id, "no-times");
+  });
+
+  test("should reject incomplete sessions and recompute incomplete stats", async () => {
+    const storage = createStorage();
+    const record = await createStorage().saveSession(createSession("s1"));
+    const { keystrokes, ...withoutKeystrokes } = createSession("no-keys");
+    const { targetText, ...withoutText } = createSession("no-text");
+
+    const result = await new DataTransferService(storage).importData(
+      asFile({
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        sessions: [
+          withoutKeystrokes,
+          withoutText,
+          { ...createSession("bad-keys"), keystrokes: [{ key: "h" }] },
+          { ...record, stats: { wpm: 999, accuracy: 100 } },
+        ],
+      }),
+      "merge"
+    );
+
+    assert.deepStrictEqual(
+      result.rejected.map((r) => r.id),
+      ["no-keys", "no-text", "bad-keys"]
+    );
+    const [imported] = await storage.getSessionRecords();
+    assert.strictEqual(imported.session.id, "s1");
+    assert.strictEqual(imported.stats.wpm, record.stats.wpm);
+    assert.ok(Array.isArray(imported.stats.errorPatterns));
+  });
+
+  test("should refuse files that are not exports", async () => {
+    const service = new DataTransferService(createStorage());
+
+    await assert.rejects(
+      service.importData({ sessions: [] }, "merge"),
+      /Not a typesh export file/
+    );
+    await assert.rejects(
+      service.importData(
+        { format: EXPORT_FORMAT, version: EXPORT_VERSION + 1 },
+        "merge"
+      ),
+      /Unsupported export version/
+    );
+  });
+});
@@ -0,0 +1,237 @@
+import * as assert from "assert";
+import {
+  analyzeErrorPatterns,
+  analyzeKeystrokeErrors,
+  analyzeWordErrors,
+  rankErrorPatterns,
+  rankWordErrors,
+  summarizeKeystrokeErrors,
+} from "../services/components/errorAnalyzer";
+import { TypingAnalyzer } from "../services/TypingAnalyzer";
+import { Keystroke } from "../models/TypingModel";
+
+// Keys paired with the time they were pressed
+const toKeystrokes = (keys: [string, number][]): Keystroke[] =>
+  keys.map(([key, timestamp], i) => ({
+    key,
+    timestamp,
+    timeSinceLast: i === 0 ? 0 : timestamp - keys[i - 1][1],
+  }));
+
+// "cat" typed as "cxy", noticed, erased and fixed
+const correctedKeystrokes = toKeystrokes([
+  ["c", 0],
+  ["x", 100],
+  ["y", 200],
+  ["\b", 500],
+  ["\b", 550],
+  ["a", 700],
+  ["t", 800],
+]);
+
+// "the cat sat on" typed as "the cst sat o", with "sxat" fixed on the way
+const wordKeystrokes = toKeystrokes(
+  [..."the cst sx\bat o"].map((key, i): [string, number] => [key, i * 100])
+);
+
+suite("Error Analyzer Tests", () => {
+  test("should record corrected keypresses with time to notice and fix", () => {
+    assert.deepStrictEqual(analyzeKeystrokeErrors(correctedKeystrokes, "cat"), [
+      {
+        index: 1,
+        timestamp: 100,
+        position: 1,
+        expectedChar: "a",
+        actualChar: "x",
+        corrected: true,
+        timeToNotice: 400, // the erasing started at 500
+        timeToFix: 600,
+      },
+      {
+        index: 2,
+        timestamp: 200,
+        position: 2,
+        expectedChar: "t",
+        actualChar: "y",
+        corrected: true,
+        timeToNotice: 300,
+        timeToFix: 600,
+      },
+    ]);
+  });
+
+  test("should keep uncorrected and extra keypresses", () => {
+    const errors = analyzeKeystrokeErrors(
+      toKeystrokes([
+        ["a", 0],
+        ["x", 100],
+        ["c", 200],
+        ["\b", 300],
+        ["d", 400],
+      ]),
+      "ab"
+    );
+
+    assert.deepStrictEqual(
+      errors.map((e) => [e.expectedChar, e.actualChar, e.corrected]),
+      [
+        ["b", "x", false],
+        [null, "c", true], // past the end, erased but never fixed
+        [null, "d", false],
+      ]
+    );
+    assert.strictEqual(errors[1].timeToFix, undefined);
+
+    const extra = summarizeKeystrokeErrors(errors).find(
+      (p) => p.character === ""
+    );
+    assert.strictEqual(extra?.frequency, 2);
+    assert.strictEqual(extra?.corrected, 1);
+    assert.strictEqual(extra?.errorType, "insertion");
+  });
+
+  test("should show corrected errors only in the all-errors view", () => {
+    const stats = TypingAnalyzer.analyzeSession({
+      id: "corrected",
+      startTime: new Date(0),
+      endTime: new Date(60000),
+      targetText: "cat",
+      userInput: "cat",
+      keystrokes: correctedKeystrokes,
+      timerDuration: 60,
+      isCompleted: true,
+    });
+
+    assert.deepStrictEqual(stats.errorPatterns, []);
+    assert.strictEqual(stats.keystrokeErrors.length, 2);
+    assert.deepStrictEqual(
+      stats.allErrorPatterns.map((p) => [
+        p.character,
+        p.corrected,
+        p.averageTimeToNotice,
+        p.averageTimeToFix,
+      ]),
+      [
+        ["a", 1, 400, 600],
+        ["t", 1, 300, 600],
+      ]
+    );
+  });
+
+  test("should keep every character pattern and rank on request", () => {
+    const patterns = analyzeErrorPatterns("abcdefghijkl", "mnopqrstuvwx");
+    assert.strictEqual(patterns.length, 12);
+
+    const errors = analyzeKeystrokeErrors(correctedKeystrokes, "cat");
+    errors[1].timeToFix = 900;
+    const [slowest] = rankErrorPatterns(summarizeKeystrokeErrors(errors), {
+      rankBy: "timeToFix",
+      limit: 1,
+    });
+    assert.strictEqual(slowest.character, "t");
+  });
+
+  test("should report mistyped and corrected words with their duration", () => {
+    const words = analyzeWordErrors([
+      {
+        targetText: "the cat sat on",
+        userInput: "the cst sat o",
+        keystrokes: wordKeystrokes,
+      },
+    ]);
+
+    // "on" was never finished and is left out
+    assert.deepStrictEqual(words, [
+      {
+        word: "cat",
+        count: 1,
+        errors: 1,
+        corrected: 0,
+        typedInstead: ["cst"],
+        averageDuration: 300, // from the space before it
+      },
+      {
+        word: "sat",
+        count: 1,
+        errors: 0,
+        corrected: 1,
+        typedInstead: [],
+        averageDuration: 500,
+      },
+      {
+        word: "the",
+        count: 1,
+        errors: 0,
+        corrected: 0,
+        typedInstead: [],
+        averageDuration: 200,
+      },
+    ]);
+
+    assert.deepStrictEqual(
+      rankWordErrors(words, { rankBy: "duration", limit: 2 }).map(
+        (w) => w.word
+      ),
+      ["sat", "cat"]
+    );
+  });
+
+  test("should keep a dropped or extra character to its own word", () => {
+    const userInput = "the ct sat onn the mat";
+    const words = analyzeWordErrors([
+      {
+        targetText: "the cat sat on the mat",
+        userInput,
+        keystrokes: toKeystrokes(
+          [...userInput].map((key, i): [string, number] => [key, i * 100])
+        ),
+      },
+    ]);
+
+    assert.deepStrictEqual(
+      words
+        .filter((w) => w.errors > 0 || w.corrected > 0)
+        .map((w) => [w.word, w.typedInstead]),
+      [
+        ["cat", ["ct"]],
+        ["on", ["onn"]],
+      ]
+    );
+  });
+
+  test("should keep every kind of error made at a character", () => {
+    const [pattern] = analyzeErrorPatterns("ab ab ab", "xb b xb");
+
+    assert.strictEqual(pattern.character, "a");
+    assert.strictEqual(pattern.errorType, "substitution");
+    assert.deepStrictEqual(pattern.errorTypes, ["substitution", "deletion"]);
+  });
+
+  test("should keep only problem words in session stats", () => {
+    const session = {
+      id: "words",
+      startTime: new Date(0),
+      endTime: new Date(60000),
+      targetText: "the cat sat on",
+      userInput: "the cst sat o",
+      keystrokes: wordKeystrokes,
+      timerDuration: 60,
+      isCompleted: false,
+    };
+
+    assert.deepStrictEqual(
+      TypingAnalyzer.analyzeSession(session).wordErrors.map((w) => w.word),
+      ["cat", "sat"]
+    );
+    assert.deepStrictEqual(
+      TypingAnalyzer.analyzeWordErrors([session, session], {
+        rankBy: "errorRate",
+      }).map((w) => [w.word, w.count]),
+      [
+        ["cat", 2],
+        ["sat", 2],
+        ["the", 2],
+      ]
+    );
+  });
+});
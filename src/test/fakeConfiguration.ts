@@ -0,0 +1,36 @@
+import * as vscode from "vscode";
+
+// In-memory stand-in for a configuration section, with a user and a workspace layer.
+// Passed to StorageService so tests never write to the real settings.
+export function createFakeConfiguration(
+  workspaceValues: Record<string, unknown> = {}
+) {
+  const globalValues = new Map<string, unknown>();
+  const workspace = new Map(Object.entries(workspaceValues));
+
+  const configuration = {
+    get: (key: string, defaultValue?: unknown) =>
+      workspace.get(key) ?? globalValues.get(key) ?? defaultValue,
+    has: (key: string) => workspace.has(key) || globalValues.has(key),
+    inspect: (key: string) => ({
+      key,
+      globalValue: globalValues.get(key),
+      workspaceValue: workspace.get(key),
+    }),
+    update: (
+      key: string,
+      value: unknown,
+      target: vscode.ConfigurationTarget
+    ) => {
+      const layer =
+        target === vscode.ConfigurationTarget.Workspace
+          ? workspace
+          : globalValues;
+      if (value === undefined) layer.delete(key);
+      else layer.set(key, value);
+      return Promise.resolve();
+    },
+  } as unknown as vscode.WorkspaceConfiguration;
+
+  return { configuration, globalValues, workspace };
+}
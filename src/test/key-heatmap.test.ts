@@ -0,0 +1,123 @@
+import * as assert from "assert";
+import {
+  findKey,
+  KEYBOARD_LAYOUTS,
+} from "../services/components/keyboardLayouts";
+import { buildKeyHeatmap } from "../services/components/keyHeatmap";
+import { Keystroke } from "../models/TypingModel";
+
+// Keys paired with the time they were pressed
+const toKeystrokes = (keys: [string, number][]): Keystroke[] =>
+  keys.map(([key, timestamp], i) => ({
+    key,
+    timestamp,
+    timeSinceLast: i === 0 ? 0 : timestamp - keys[i - 1][1],
+  }));
+
+suite("Key Heatmap Tests", () => {
+  test("should attribute fingers by physical key in every layout", () => {
+    for (const layout of Object.values(KEYBOARD_LAYOUTS))
+      assert.deepStrictEqual(
+        layout.rows.map((row) => row.length),
+        [13, 13, 11, 10, 1],
+        layout.name
+      );
+
+    const fingerOf = (layout: keyof typeof KEYBOARD_LAYOUTS, char: string) => {
+      const key = findKey(KEYBOARD_LAYOUTS[layout], char);
+      return key && `${key.hand} ${key.finger}`;
+    };
+
+    assert.strictEqual(fingerOf("qwerty", "e"), "left middle");
+    assert.strictEqual(fingerOf("dvorak", "e"), "left middle");
+    assert.strictEqual(fingerOf("colemak", "e"), "right middle");
+    assert.strictEqual(fingerOf("dvorak", "S"), "right pinky");
+    assert.strictEqual(fingerOf("qwerty", " "), "both thumb");
+    assert.strictEqual(fingerOf("qwerty", "é"), undefined);
+  });
+
+  test("should aggregate error rate and latency per key and finger", () => {
+    const heatmap = buildKeyHeatmap(
+      [
+        {
+          targetText: "the cat",
+          userInput: "thr cat",
+          keystrokes: toKeystrokes([
+            ["t", 0],
+            ["h", 100],
+            ["r", 250],
+            [" ", 300],
+            ["c", 400],
+            ["a", 500],
+            ["t", 700],
+          ]),
+        },
+      ],
+      "qwerty"
+    );
+
+    const heatOf = (char: string) =>
+      heatmap.keys.find((heat) => heat.key.base === char)!;
+
+    assert.strictEqual(heatmap.sessions, 1);
+    assert.deepStrictEqual(
+      { ...heatOf("e"), key: undefined },
+      {
+        key: undefined,
+        typed: 1,
+        errors: 1,
+        errorRate: 100,
+        averageLatency: 150,
+      }
+    );
+    // The first "t" starts the run and is not timed
+    assert.strictEqual(heatOf("t").typed, 2);
+    assert.strictEqual(heatOf("t").averageLatency, 200);
+    assert.strictEqual(heatOf("q").averageLatency, null);
+
+    // "e" and "c" share the left middle finger
+    const leftMiddle = heatmap.fingers.find(
+      (f) => f.hand === "left" && f.finger === "middle"
+    );
+    assert.deepStrictEqual(leftMiddle, {
+      hand: "left",
+      finger: "middle",
+      typed: 2,
+      errors: 1,
+      errorRate: 50,
+      averageLatency: 125,
+    });
+    assert.deepStrictEqual(
+      heatmap.fingers.map((f) => `${f.hand} ${f.finger}`),
+      ["left pinky", "left middle", "left index", "both thumb", "right index"]
+    );
+  });
+
+  test("should skip untyped text and sessions without keystrokes", () => {
+    const heatmap = buildKeyHeatmap(
+      [
+        {
+          targetText: "the cat",
+          userInput: "th",
+          keystrokes: toKeystrokes([
+            ["t", 0],
+            ["h", 100],
+          ]),
+        },
+        { targetText: "", userInput: "", keystrokes: [] },
+      ],
+      "colemak"
+    );
+
+    assert.strictEqual(heatmap.sessions, 1);
+    assert.deepStrictEqual(
+      heatmap.keys
+        .filter((heat) => heat.typed > 0)
+        .map((heat) => [heat.key.base, heat.errors]),
+      [
+        ["t", 0],
+        ["h", 0],
+      ]
+    );
+  });
+});
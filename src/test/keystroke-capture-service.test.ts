@@ -7,6 +7,7 @@ import {
   BlurHandler,
 } from "../services/KeystrokeCaptureService";
 import { TypingSessionManager } from "../services/TypingSessionManager";
+import { VirtualClock } from "../services/components/clock";
 
 suite("KeystrokeCaptureService Tests", () => {
   let service: KeystrokeCaptureService;
@@ -326,6 +327,35 @@ suite("KeystrokeCaptureService Tests", () => {
       assert.strictEqual(receivedKey, "a", "Should receive the correct key");
     });
 
+    test("should stamp keystrokes with the capture clock", () => {
+      const clock = new VirtualClock(1000);
+      const clockedService = new KeystrokeCaptureService({
+        element: testElement,
+        preventDefault: false,
+        clock,
+      });
+
+      const received: [string, number | undefined][] = [];
+      clockedService.addHandlers((key, _event, timestamp) => {
+        received.push([key, timestamp]);
+        return true;
+      });
+      clockedService.startCapture();
+
+      for (const key of ["a", "b"]) {
+        clock.advance(150);
+        testElement.dispatchEvent(
+          new KeyboardEvent("keypress", { key, bubbles: true })
+        );
+      }
+      clockedService.stopCapture();
+
+      assert.deepStrictEqual(received, [
+        ["a", 1150],
+        ["b", 1300],
+      ]);
+    });
+
     test("should handle keypress events", () => {
       let receivedKey = "";
       const handler: KeystrokeHandler = (key) => {
@@ -384,6 +414,30 @@ suite("KeystrokeCaptureService Tests", () => {
       assert.strictEqual(receivedKey, "\n", "Should normalize Enter to \\n");
     });
 
+    test("should skip special keys when captureSpecialKeys is false", () => {
+      const received: string[] = [];
+      const plainService = new KeystrokeCaptureService({
+        element: testElement,
+        preventDefault: false,
+        captureSpecialKeys: false,
+      });
+
+      plainService.addHandlers((key) => {
+        received.push(key);
+        return true;
+      });
+      plainService.startCapture();
+
+      for (const key of ["Backspace", "Enter", "a"])
+        testElement.dispatchEvent(
+          new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true })
+        );
+
+      plainService.stopCapture();
+
+      assert.deepStrictEqual(received, ["a"], "Only printable keys expected");
+    });
+
     test("should handle focus events", () => {
       let focusCalled = false;
       const focusHandler: FocusHandler = () => {
@@ -0,0 +1,98 @@
+import * as assert from "assert";
+import {
+  reconstructInput,
+  replayKeystrokes,
+} from "../services/components/keystrokeReplay";
+import {
+  analyzeKeypressAccuracy,
+  calculateCorrectedErrors,
+  countAllTypedCharacters,
+} from "../services/components/calculations";
+import { analyzeKeystrokeErrors } from "../services/components/errorAnalyzer";
+import { Keystroke } from "../models/TypingModel";
+
+// One keystroke per entry, 100ms apart
+const toKeystrokes = (keys: string[]): Keystroke[] =>
+  keys.map((key, i) => ({
+    key,
+    timestamp: 1000 + i * 100,
+    timeSinceLast: i === 0 ? 0 : 100,
+  }));
+
+suite("Keystroke Replay Tests", () => {
+  test("should reconstruct the input after every keystroke", () => {
+    const steps = replayKeystrokes(
+      toKeystrokes(["c", "x", "\b", "a", "t"]),
+      "cat"
+    );
+
+    assert.deepStrictEqual(
+      steps.map((s) => s.input),
+      ["c", "cx", "c", "ca", "cat"]
+    );
+    assert.deepStrictEqual(
+      steps.map((s) => [s.position, s.char, s.isCorrect]),
+      [
+        [0, "c", true],
+        [1, "x", false],
+        [1, "x", false], // the backspace removed the wrong "x"
+        [1, "a", true],
+        [2, "t", true],
+      ]
+    );
+  });
+
+  test("should treat both backspace spellings the same", () => {
+    const keys = ["h", "i", "Backspace", "\b", "o"];
+
+    assert.strictEqual(reconstructInput(toKeystrokes(keys)), "o");
+    assert.strictEqual(countAllTypedCharacters(toKeystrokes(keys)), 3);
+  });
+
+  test("should ignore backspaces on empty input", () => {
+    const [step] = replayKeystrokes(toKeystrokes(["\b"]), "abc");
+
+    assert.strictEqual(step.input, "");
+    assert.strictEqual(step.char, undefined);
+    assert.strictEqual(step.isCorrect, false);
+    assert.strictEqual(
+      calculateCorrectedErrors(toKeystrokes(["\b", "a"]), "abc"),
+      0
+    );
+  });
+
+  test("should count only removed mistakes as corrected errors", () => {
+    // "x" is a mistake that gets fixed, the correct "l" is deleted and retyped
+    const keystrokes = toKeystrokes([
+      ..."hex",
+      "Backspace",
+      ..."ll",
+      "\b",
+      ..."lo",
+    ]);
+
+    assert.strictEqual(calculateCorrectedErrors(keystrokes, "hello"), 1);
+    assert.strictEqual(reconstructInput(keystrokes), "hello");
+  });
+
+  test("should count erased extra characters as corrected errors", () => {
+    const keystrokes = toKeystrokes([..."abcd", "\b"]);
+
+    assert.strictEqual(calculateCorrectedErrors(keystrokes, "abc"), 1);
+    assert.deepStrictEqual(
+      analyzeKeystrokeErrors(keystrokes, "abc").map((e) => e.corrected),
+      [true],
+      "Keystroke errors should agree"
+    );
+  });
+
+  test("should keep accuracy and corrections in step", () => {
+    const keystrokes = toKeystrokes(["t", "r", "\b", "e", "s", "t"]);
+    const accuracy = analyzeKeypressAccuracy(keystrokes, "test");
+
+    // "r" was wrong, the other four keypresses were right
+    assert.strictEqual(accuracy.totalKeypresses, 5);
+    assert.strictEqual(accuracy.correctKeypresses, 4);
+    assert.strictEqual(calculateCorrectedErrors(keystrokes, "test"), 1);
+  });
+});
@@ -0,0 +1,147 @@
+import * as assert from "assert";
+import { analyzeLatency } from "../services/components/latencyAnalyzer";
+import { TypingAnalyzer } from "../services/TypingAnalyzer";
+import { Keystroke, TypingSession } from "../models/TypingModel";
+
+// Keys paired with the time they were pressed
+const toKeystrokes = (keys: [string, number][]): Keystroke[] =>
+  keys.map(([key, timestamp], i) => ({
+    key,
+    timestamp,
+    timeSinceLast: i === 0 ? 0 : timestamp - keys[i - 1][1],
+  }));
+
+suite("Latency Analyzer Tests", () => {
+  test("should time keys, bigrams and trigrams within a run", () => {
+    const latency = analyzeLatency([
+      {
+        targetText: "the",
+        keystrokes: toKeystrokes([
+          ["t", 0],
+          ["h", 100],
+          ["e", 300],
+        ]),
+      },
+    ]);
+
+    // The first key has nothing before it to be timed against
+    assert.deepStrictEqual(
+      latency.keys.map((s) => [s.sequence, s.averageLatency]),
+      [
+        ["e", 200],
+        ["h", 100],
+      ]
+    );
+    assert.deepStrictEqual(
+      latency.slowest.map((s) => [s.sequence, s.medianLatency]),
+      [
+        ["the", 300],
+        ["he", 200],
+        ["th", 100],
+      ]
+    );
+    assert.deepStrictEqual(latency.mostErrors, []);
+  });
+
+  test("should not time the key after a backspace", () => {
+    const latency = analyzeLatency([
+      {
+        targetText: "ab",
+        keystrokes: toKeystrokes([
+          ["a", 0],
+          ["x", 100],
+          ["\b", 200],
+          ["b", 900],
+        ]),
+      },
+    ]);
+
+    assert.deepStrictEqual(latency.keys, [
+      {
+        sequence: "b",
+        count: 1,
+        errors: 1,
+        averageLatency: 100,
+        medianLatency: 100,
+      },
+    ]);
+    assert.deepStrictEqual(
+      latency.mostErrors.map((s) => [s.sequence, s.errors]),
+      [["ab", 1]]
+    );
+  });
+
+  test("should combine sessions and report medians", () => {
+    const session = (gap: number) => ({
+      targetText: "=>",
+      keystrokes: toKeystrokes([
+        ["=", 0],
+        [">", gap],
+      ]),
+    });
+
+    const [arrow] = analyzeLatency([
+      session(100),
+      session(300),
+      session(50),
+    ]).slowest;
+
+    assert.deepStrictEqual(arrow, {
+      sequence: "=>",
+      count: 3,
+      errors: 0,
+      averageLatency: 150,
+      medianLatency: 100,
+    });
+  });
+
+  test("should rank by error rate and respect limit and minCount", () => {
+    const latency = analyzeLatency(
+      [
+        {
+          targetText: "abab",
+          keystrokes: toKeystrokes([
+            ["a", 0],
+            ["b", 100],
+            ["a", 200],
+            ["x", 300],
+          ]),
+        },
+      ],
+      { limit: 1, minCount: 2 }
+    );
+
+    // "ab" was typed twice with one error, "ba" and the trigrams only once
+    assert.deepStrictEqual(
+      latency.mostErrors.map((s) => [s.sequence, s.count, s.errors]),
+      [["ab", 2, 1]]
+    );
+    assert.strictEqual(latency.slowest.length, 1);
+  });
+
+  test("should include latency in analyzed sessions", () => {
+    const session: TypingSession = {
+      id: "latency",
+      startTime: new Date(0),
+      endTime: new Date(60000),
+      targetText: "->",
+      userInput: "->",
+      keystrokes: toKeystrokes([
+        ["-", 0],
+        [">", 400],
+      ]),
+      timerDuration: 60,
+      isCompleted: true,
+    };
+
+    const stats = TypingAnalyzer.analyzeSession(session);
+    assert.deepStrictEqual(
+      stats.latency.slowest.map((s) => [s.sequence, s.averageLatency]),
+      [["->", 400]]
+    );
+    assert.deepStrictEqual(
+      TypingAnalyzer.analyzeLatency([session, session]).slowest[0].count,
+      2
+    );
+  });
+});
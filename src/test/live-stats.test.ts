@@ -0,0 +1,96 @@
+import * as assert from "assert";
+import { countAlignedCorrect } from "../services/components/calculations";
+import { LiveStatsTracker } from "../services/components/liveStats";
+import { TypingSessionManager } from "../services/TypingSessionManager";
+import { LiveStats } from "../models/SessionModel";
+
+suite("Live Stats Tests", () => {
+  test("should track speed, accuracy and errors key by key", () => {
+    const tracker = new LiveStatsTracker("hello");
+
+    tracker.addKey("h", 0);
+    tracker.addKey("e", 1000);
+    tracker.addKey("x", 2000);
+    assert.strictEqual(tracker.getStats(2, 2000).errors, 1);
+
+    tracker.addKey("\b", 3000);
+    tracker.addKey("l", 4000);
+    tracker.addKey("l", 5000);
+    tracker.addKey("o", 10000);
+
+    assert.deepStrictEqual(tracker.getStats(12, 10000), {
+      wpm: 5, // 5 correct characters in 12 seconds
+      rawWpm: 6, // the erased "x" still counts
+      burstWpm: 5, // "l" and "o" in the last 5 seconds
+      accuracy: 83.33,
+      errors: 0,
+    });
+  });
+
+  test("should measure the burst over the session so far when it is short", () => {
+    const tracker = new LiveStatsTracker("hello");
+    tracker.addKey("h", 0);
+    tracker.addKey("e", 1000);
+
+    assert.strictEqual(tracker.getStats(2, 2000).burstWpm, 12);
+    // Nothing typed in the last 5 seconds
+    assert.strictEqual(tracker.getStats(20, 20000).burstWpm, 0);
+  });
+
+  test("should align like the final stats while only realigning the last words", () => {
+    const target = "the quick brown fox jumps over the lazy dog ".repeat(4);
+    const tracker = new LiveStatsTracker(target);
+    let input = "";
+    let seed = 7;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+    // Dropped, doubled, wrong and stray space characters, and backspaces across word ends
+    for (const char of target) {
+      const roll = random();
+      const keys =
+        roll < 0.05
+          ? []
+          : roll < 0.1
+          ? [char, char]
+          : roll < 0.15
+          ? [random() < 0.5 ? "x" : " "]
+          : [char];
+      if (random() < 0.1) keys.push("\b", "\b", char);
+
+      for (const key of keys) {
+        tracker.addKey(key, 0);
+        input = key === "\b" ? input.slice(0, -1) : input + key;
+
+        // 12 seconds make the net WPM the count of correct characters
+        assert.strictEqual(
+          tracker.getStats(12, 0).wpm,
+          countAlignedCorrect(target, input),
+          `After typing ${JSON.stringify(input)}`
+        );
+      }
+    }
+  });
+
+  test("should emit live stats on every keystroke", () => {
+    const manager = new TypingSessionManager({
+      mode: "passage",
+      target: 0,
+      targetText: "hello world",
+    });
+    const emitted: LiveStats[] = [];
+    manager.onLiveStatsUpdate((stats) => emitted.push(stats));
+
+    manager.startSession();
+    for (const char of "helxo") manager.processKeystroke(char);
+
+    assert.strictEqual(emitted.length, 5);
+    assert.deepStrictEqual(
+      emitted.map((stats) => stats.errors),
+      [0, 0, 0, 1, 1]
+    );
+    assert.strictEqual(emitted[4].accuracy, 80);
+    assert.strictEqual(manager.getLiveMetrics().errors, 1);
+
+    manager.endSession();
+  });
+});
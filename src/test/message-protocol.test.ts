@@ -0,0 +1,227 @@
+import * as assert from "assert";
+import {
+  createWebviewMessage,
+  isExtensionMessage,
+  PROTOCOL_VERSION,
+  RESPONSE_TYPES,
+  validateWebviewMessage,
+} from "../shared/messageProtocol";
+
+suite("Message Protocol Tests", () => {
+  test("should stamp created messages with the protocol version", () => {
+    assert.deepStrictEqual(createWebviewMessage("getSettings"), {
+      type: "getSettings",
+      version: PROTOCOL_VERSION,
+    });
+    assert.deepStrictEqual(
+      createWebviewMessage("keystroke", { character: "a" }),
+      {
+        type: "keystroke",
+        version: PROTOCOL_VERSION,
+        payload: { character: "a" },
+      }
+    );
+  });
+
+  test("should accept well-formed messages", () => {
+    const messages = [
+      createWebviewMessage("getParagraphs"),
+      createWebviewMessage("startSession", {
+        sessionId: "s1",
+        mode: "words",
+        target: 25,
+        targetText: "hello world",
+      }),
+      createWebviewMessage("keystroke", { character: "\b" }),
+      createWebviewMessage("updateSettings", { theme: "dark" }),
+      createWebviewMessage("deleteParagraph", { id: "p1" }),
+      createWebviewMessage("getHistoryStats", {
+        filters: { mode: "words", category: "all", from: "2024-03-01", to: "" },
+        period: "week",
+      }),
+    ];
+
+    messages.forEach((message) => {
+      const result = validateWebviewMessage(message);
+      assert.ok(result.valid, `Should accept ${message.type}`);
+    });
+  });
+
+  test("should accept paragraphs with serialized dates", () => {
+    const result = validateWebviewMessage({
+      type: "saveParagraph",
+      version: PROTOCOL_VERSION,
+      payload: {
+        id: "p1",
+        title: "Title",
+        content: "Content",
+        dateAdded: new Date().toISOString(),
+      },
+    });
+
+    assert.ok(result.valid);
+  });
+
+  test("should reject non-objects and unknown types", () => {
+    for (const raw of [
+      null,
+      "getSettings",
+      42,
+      [],
+      { type: "launchRockets" },
+    ]) {
+      const result = validateWebviewMessage(raw);
+      assert.ok(!result.valid);
+      assert.strictEqual(result.code, "invalidMessage");
+    }
+  });
+
+  test("should reject types inherited from Object.prototype", () => {
+    for (const type of [
+      "toString",
+      "constructor",
+      "hasOwnProperty",
+      "valueOf",
+      "__proto__",
+    ]) {
+      const result = validateWebviewMessage({
+        type,
+        version: PROTOCOL_VERSION,
+      });
+      assert.ok(!result.valid, `Should reject ${type}`);
+      assert.strictEqual(result.code, "invalidMessage");
+    }
+  });
+
+  test("should reject missing or mismatched protocol versions", () => {
+    for (const version of [undefined, 0, PROTOCOL_VERSION + 1]) {
+      const result = validateWebviewMessage({ type: "getSettings", version });
+      assert.ok(!result.valid);
+      assert.strictEqual(result.code, "unsupportedVersion");
+    }
+  });
+
+  test("should reject invalid payload shapes", () => {
+    const invalidPayloads: Array<[string, unknown]> = [
+      ["keystroke", { character: "" }],
+      ["keystroke", undefined],
+      [
+        "startSession",
+        { sessionId: "s", mode: "race", target: 1, targetText: "a" },
+      ],
+      [
+        "startSession",
+        { sessionId: "s", mode: "words", target: -1, targetText: "a" },
+      ],
+      [
+        "startSession",
+        { sessionId: "s", mode: "words", target: 1, targetText: " " },
+      ],
+      ["updateSettings", { defaultTimer: 0 }],
+      ["updateSettings", { fontSize: 12 }],
+      ["saveParagraph", { id: "p", title: "t", content: "", dateAdded: "" }],
+      [
+        "saveParagraph",
+        {
+          id: "p",
+          title: "t",
+          content: "c",
+          dateAdded: "",
+          difficulty: "insane",
+        },
+      ],
+      [
+        "startSession",
+        {
+          sessionId: "s",
+          mode: "passage",
+          target: 0,
+          targetText: "a",
+          paragraphId: "",
+        },
+      ],
+      ["deleteParagraph", {}],
+      ["deleteSession", { id: 7 }],
+      ["getSessionHistory", { offset: -1, limit: 10 }],
+      ["getKeyHeatmap", { ids: ["s"], layout: "azerty" }],
+      [
+        "getHistoryStats",
+        {
+          filters: { mode: "all", category: "all", from: "March", to: "" },
+          period: "day",
+        },
+      ],
+      [
+        "getHistoryStats",
+        {
+          filters: { mode: "all", category: "all", from: "", to: "" },
+          period: "month",
+        },
+      ],
+      ["getSettings", { unexpected: true }],
+    ];
+
+    invalidPayloads.forEach(([type, payload]) => {
+      const result = validateWebviewMessage({
+        type,
+        version: PROTOCOL_VERSION,
+        payload,
+      });
+      assert.ok(!result.valid, `Should reject payload for ${type}`);
+      assert.strictEqual(result.code, "invalidMessage");
+    });
+  });
+
+  test("should recognise extension messages on the webview side", () => {
+    assert.ok(
+      isExtensionMessage({
+        type: "settingsLoaded",
+        version: PROTOCOL_VERSION,
+        payload: {},
+      })
+    );
+    assert.ok(!isExtensionMessage({ type: "settingsLoaded" }));
+    assert.ok(
+      !isExtensionMessage({ type: "other", version: PROTOCOL_VERSION })
+    );
+  });
+
+  test("should validate optional request ids", () => {
+    const valid = validateWebviewMessage({
+      type: "getSettings",
+      version: PROTOCOL_VERSION,
+      requestId: "req-1",
+    });
+    assert.ok(valid.valid);
+
+    const invalid = validateWebviewMessage({
+      type: "getSettings",
+      version: PROTOCOL_VERSION,
+      requestId: 7,
+    });
+    assert.ok(!invalid.valid);
+    assert.strictEqual(invalid.code, "invalidMessage");
+  });
+
+  test("should keep the request id on rejected messages", () => {
+    const result = validateWebviewMessage({
+      type: "keystroke",
+      version: PROTOCOL_VERSION,
+      requestId: "req-1",
+    });
+
+    assert.ok(!result.valid);
+    assert.strictEqual(result.requestId, "req-1");
+  });
+
+  test("should map every request to a response type", () => {
+    assert.strictEqual(RESPONSE_TYPES.saveParagraph, "paragraphsLoaded");
+    assert.strictEqual(RESPONSE_TYPES.pauseSession, "ack");
+    assert.ok(
+      Object.values(RESPONSE_TYPES).every((type) =>
+        isExtensionMessage({ type, version: PROTOCOL_VERSION })
+      ),
+      "Every response type must be a known extension message"
+    );
+  });
+});
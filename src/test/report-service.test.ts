@@ -0,0 +1,100 @@
+import * as assert from "assert";
+import { ReportRow, ReportService } from "../services/ReportService";
+import { ErrorPattern, TypingStats } from "../models/TypingModel";
+
+suite("ReportService Tests", () => {
+  function createStats(
+    wpm: number,
+    errorPatterns: ErrorPattern[] = []
+  ): TypingStats {
+    return {
+      wpm,
+      grossWPM: wpm + 5,
+      wordsWPM: wpm - 5,
+      accuracy: 95,
+      errorCount: 1,
+      correctedErrors: 2,
+      consistencyScore: 80,
+      errorPatterns,
+      allErrorPatterns: [],
+      keystrokeErrors: [],
+      wordErrors: [],
+      latency: { keys: [], slowest: [], mostErrors: [] },
+      characterStats: { correct: 40, incorrect: 1, extra: 0, missed: 3 },
+    };
+  }
+
+  function createRow(
+    wpm: number,
+    errorPatterns: ErrorPattern[] = []
+  ): ReportRow {
+    return {
+      date: new Date("2024-03-01T10:00:00.000Z"),
+      mode: "tick-tick",
+      target: 60,
+      stats: createStats(wpm, errorPatterns),
+    };
+  }
+
+  const pattern = (
+    character: string,
+    frequency: number,
+    commonMistakes: string[]
+  ): ErrorPattern => ({ character, frequency, positions: [], commonMistakes });
+
+  test("should write one CSV row per session", () => {
+    const csv = ReportService.toCsv([createRow(50), createRow(60)]);
+    const lines = csv.trim().split("\r\n");
+
+    assert.strictEqual(
+      lines[0],
+      "date,mode,target,wpm,gross_wpm,words_wpm,accuracy,consistency,corrected_errors,correct_chars,incorrect_chars,extra_chars,missed_chars"
+    );
+    assert.strictEqual(
+      lines[1],
+      "2024-03-01T10:00:00.000Z,tick-tick,60,50,55,45,95,80,2,40,1,0,3"
+    );
+    assert.strictEqual(lines.length, 3);
+  });
+
+  test("should leave unknown modes and dates empty in CSV", () => {
+    const csv = ReportService.toCsv([
+      { ...createRow(50), mode: null, date: null },
+    ]);
+    assert.ok(csv.split("\r\n")[1].startsWith(",,60,"));
+  });
+
+  test("should merge error patterns across sessions", () => {
+    const summary = ReportService.summarizeErrors([
+      createRow(50, [pattern("e", 3, ["r"]), pattern(" ", 1, ["_DELETED_"])]),
+      createRow(60, [pattern("e", 2, ["w", "r"])]),
+    ]);
+
+    assert.deepStrictEqual(summary[0], {
+      character: "e",
+      frequency: 5,
+      sessions: 2,
+      commonMistakes: ["r", "w"],
+    });
+    assert.strictEqual(summary[1].character, " ");
+  });
+
+  test("should summarize the selection in Markdown", () => {
+    const markdown = ReportService.toMarkdown([
+      createRow(50, [
+        pattern("|", 2, [" "]),
+        pattern("\n", 1, ["\t"]),
+        pattern("\r", 1, ["\u0000", "\u2028"]),
+      ]),
+      createRow(70),
+    ]);
+
+    assert.ok(markdown.includes("2 sessions from 2024-03-01 to 2024-03-01"));
+    assert.ok(markdown.includes("| wpm | 60 | 70 |"));
+    assert.ok(markdown.includes("| `\\|` | 2 | 1 | space |"));
+    assert.ok(markdown.includes("| newline | 1 | 1 | tab |"));
+    assert.ok(
+      markdown.includes("| carriage return | 1 | 1 | U+0000, U+2028 |")
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import * as assert from "assert";
+import { ReplayTimeline } from "../services/components/sessionReplay";
+import { VirtualClock } from "../services/components/clock";
+import { ReplayPlayer } from "../services/ReplayPlayer";
+import { ReplayFrame } from "../models/SessionModel";
+
+// "cat" typed as "cx", fixed and finished, half a second between keys.
+// Dates as ISO strings, the way the webview receives them.
+const session = {
+  targetText: "cat",
+  startTime: new Date(1000).toISOString() as unknown as Date,
+  endTime: new Date(4000).toISOString() as unknown as Date,
+  keystrokes: [
+    { key: "c", timestamp: 1500, timeSinceLast: 0 },
+    { key: "x", timestamp: 2000, timeSinceLast: 500 },
+    { key: "\b", timestamp: 2500, timeSinceLast: 500 },
+    { key: "a", timestamp: 3000, timeSinceLast: 500 },
+    { key: "t", timestamp: 3500, timeSinceLast: 500 },
+  ],
+};
+
+suite("Session Replay Tests", () => {
+  test("should rebuild the input and stats at any point", () => {
+    const timeline = new ReplayTimeline(session);
+    assert.strictEqual(timeline.duration, 3000, "Until the session ended");
+
+    const corrected = timeline.frameAt(1600);
+    assert.strictEqual(corrected.input, "c");
+    assert.deepStrictEqual(corrected.correctedPositions, [1]);
+
+    assert.deepStrictEqual(timeline.frameAt(3000), {
+      time: 3000,
+      keyCount: 5,
+      input: "cat",
+      correctedPositions: [1],
+      stats: {
+        wpm: 12, // 3 correct characters in 3 seconds
+        rawWpm: 16,
+        burstWpm: 16,
+        accuracy: 75,
+        errors: 0,
+      },
+    });
+  });
+
+  test("should scrub backwards to earlier stats", () => {
+    const timeline = new ReplayTimeline(session);
+    timeline.frameAt(3000);
+
+    const frame = timeline.frameAt(800);
+    assert.strictEqual(frame.input, "c");
+    assert.deepStrictEqual(frame.correctedPositions, []);
+    assert.strictEqual(frame.stats.rawWpm, 15, "1 character in 0.8 seconds");
+    assert.strictEqual(timeline.nextKeyTime(800), 1000);
+    assert.strictEqual(timeline.frameAt(-5).keyCount, 0);
+  });
+
+  test("should play faster than real time on a virtual clock", () => {
+    const clock = new VirtualClock();
+    const player = new ReplayPlayer(session, clock);
+    const frames: ReplayFrame[] = [];
+    let ended = false;
+
+    player.onFrameUpdate((frame) => frames.push(frame));
+    player.onReplayEnd(() => (ended = true));
+
+    player.setSpeed(2);
+    player.play();
+    clock.advance(750);
+
+    assert.strictEqual(player.getFrame().time, 1500);
+    assert.ok(
+      frames.some((frame) => frame.time === 500 && frame.keyCount === 1),
+      "Each keystroke should show at its own time"
+    );
+
+    player.pause();
+    clock.advance(10000);
+    assert.strictEqual(player.getFrame().time, 1500, "Paused replays stay put");
+
+    player.seek(2900);
+    player.play();
+    clock.advance(50);
+
+    assert.strictEqual(ended, true);
+    assert.strictEqual(player.isPlaying(), false);
+    assert.strictEqual(player.getFrame().input, "cat");
+    assert.throws(() => player.setSpeed(8), /speed must be between/);
+  });
+});
@@ -0,0 +1,230 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { SessionStore } from "../services/SessionStore";
+import { SessionRecord } from "../models/SessionModel";
+
+suite("SessionStore Tests", () => {
+  let storageDir: string;
+  let store: SessionStore;
+
+  const sessionsDir = () => path.join(storageDir, "sessions");
+  const segmentFiles = () =>
+    fs.readdirSync(sessionsDir()).filter((name) => name.endsWith(".jsonl"));
+
+  function createRecord(id: string, daysAgo = 0): SessionRecord {
+    const endTime = new Date(Date.now() - daysAgo * 86400000);
+    return {
+      session: {
+        id,
+        startTime: new Date(endTime.getTime() - 60000),
+        endTime,
+        targetText: "abc",
+        userInput: "abc",
+        keystrokes: [],
+        timerDuration: 60,
+        isCompleted: true,
+      },
+      stats: {
+        wpm: 1,
+        grossWPM: 1,
+        wordsWPM: 1,
+        accuracy: 100,
+        errorCount: 0,
+        correctedErrors: 0,
+        consistencyScore: 100,
+        errorPatterns: [],
+        allErrorPatterns: [],
+        keystrokeErrors: [],
+        wordErrors: [],
+        latency: { keys: [], slowest: [], mostErrors: [] },
+        characterStats: { correct: 3, incorrect: 0, extra: 0, missed: 0 },
+      },
+      mode: "tick-tick",
+      target: 60,
+      analyzerVersion: 1,
+    };
+  }
+
+  setup(() => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), "typesh-store-"));
+    store = new SessionStore(vscode.Uri.file(storageDir));
+  });
+
+  teardown(() => {
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  test("should start new segments as the active one fills up", async () => {
+    const records = Array.from({ length: 250 }, (_, i) =>
+      createRecord(`session-${i}`)
+    );
+    await store.append(...records);
+
+    assert.strictEqual(segmentFiles().length, 3);
+    assert.strictEqual((await store.ids()).length, 250);
+
+    const reopened = new SessionStore(vscode.Uri.file(storageDir));
+    const record = await reopened.get("session-123");
+    assert.strictEqual(record?.session.id, "session-123");
+  });
+
+  test("should replace a record saved again with the same id", async () => {
+    await store.append(createRecord("same"));
+    await store.append({ ...createRecord("same"), target: 30 });
+
+    const page = await store.getSessions();
+    assert.strictEqual(page.total, 1);
+    assert.strictEqual(page.records[0].target, 30);
+  });
+
+  test("should compact once enough records are deleted", async () => {
+    await store.append(
+      ...Array.from({ length: 8 }, (_, i) => createRecord(`session-${i}`))
+    );
+
+    assert.strictEqual(await store.delete("session-0"), true);
+    assert.strictEqual(await store.delete("missing"), false);
+
+    const before = fs.readFileSync(
+      path.join(sessionsDir(), segmentFiles()[0]),
+      "utf8"
+    );
+    assert.ok(before.includes("session-0"), "Deletes leave garbage at first");
+
+    await store.delete("session-1");
+    await store.delete("session-2");
+
+    const after = segmentFiles()
+      .map((name) => fs.readFileSync(path.join(sessionsDir(), name), "utf8"))
+      .join("");
+    assert.ok(!after.includes("session-0"), "Compaction drops deleted lines");
+    assert.strictEqual((await store.ids()).length, 5);
+  });
+
+  test("should drop sessions past the retention period", async () => {
+    await store.append(
+      createRecord("old", 40),
+      createRecord("recent", 5),
+      createRecord("today")
+    );
+
+    const expired = await store.compact({ retentionDays: 30 });
+
+    assert.strictEqual(expired, 1);
+    const page = await store.getSessions();
+    assert.deepStrictEqual(
+      page.records.map((r) => r.session.id),
+      ["today", "recent"]
+    );
+    assert.strictEqual(await store.compact(), 0, "No retention keeps all");
+  });
+
+  test("should read only the requested ids", async () => {
+    await store.append(
+      createRecord("a", 3),
+      createRecord("b", 2),
+      createRecord("c", 1)
+    );
+
+    const page = await store.getSessions({ ids: ["a", "c", "missing"] });
+
+    assert.deepStrictEqual(
+      page.records.map((r) => r.session.id),
+      ["c", "a"]
+    );
+  });
+
+  test("should filter by date", async () => {
+    await store.append(createRecord("old", 10), createRecord("new", 1));
+
+    const page = await store.getSessions({
+      since: new Date(Date.now() - 3 * 86400000),
+    });
+
+    assert.deepStrictEqual(
+      page.records.map((r) => r.session.id),
+      ["new"]
+    );
+  });
+
+  test("should keep sessions saved by another window", async () => {
+    // Two windows open the same global storage
+    const other = new SessionStore(vscode.Uri.file(storageDir));
+    await store.append(createRecord("first"));
+    assert.strictEqual((await other.ids()).length, 1);
+
+    await other.append(createRecord("second", 1));
+    await store.append(createRecord("third", 2));
+    await other.delete("first");
+    await store.compact();
+
+    const page = await store.getSessions();
+    assert.deepStrictEqual(
+      page.records.map((r) => r.session.id),
+      ["second", "third"]
+    );
+    assert.deepStrictEqual(
+      fs.readdirSync(sessionsDir()).filter((name) => name.endsWith(".tmp")),
+      [],
+      "Temporary files are renamed into place"
+    );
+  });
+
+  test("should not lose records saved by two windows at once", async () => {
+    const other = new SessionStore(vscode.Uri.file(storageDir));
+
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        (i % 2 ? store : other).append(createRecord(`session-${i}`))
+      )
+    );
+
+    assert.strictEqual((await store.ids()).length, 20);
+    assert.ok(!fs.existsSync(path.join(sessionsDir(), "lock")), "Released");
+  });
+
+  test("should take over a lock left by a closed window", async () => {
+    const lock = path.join(sessionsDir(), "lock");
+    fs.mkdirSync(lock, { recursive: true });
+    const longAgo = new Date(Date.now() - 60000);
+    fs.utimesSync(lock, longAgo, longAgo);
+
+    await store.append(createRecord("a"));
+    assert.deepStrictEqual(await store.ids(), ["a"]);
+  });
+
+  test("should compact one segment at a time", async () => {
+    await store.append(
+      ...Array.from({ length: 250 }, (_, i) => createRecord(`session-${i}`))
+    );
+    for (let i = 0; i < 250; i += 2) await store.delete(`session-${i}`);
+
+    const batches: number[] = [];
+    const readRecords = (store as any).readRecords.bind(store);
+    (store as any).readRecords = async (entries: unknown[]) => {
+      batches.push(entries.length);
+      return readRecords(entries);
+    };
+    await store.compact();
+
+    assert.ok(batches.length > 1 && batches.every((size) => size <= 100));
+    assert.strictEqual((await store.ids()).length, 125);
+    assert.strictEqual(segmentFiles().length, 2);
+  });
+
+  test("should rebuild an unreadable index from the segments", async () => {
+    await store.append(createRecord("a"), createRecord("b", 1));
+    fs.writeFileSync(path.join(sessionsDir(), "index.json"), "{not json");
+
+    const reopened = new SessionStore(vscode.Uri.file(storageDir));
+    const page = await reopened.getSessions();
+
+    assert.deepStrictEqual(
+      page.records.map((r) => r.session.id),
+      ["a", "b"]
+    );
+  });
+});
@@ -0,0 +1,185 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import {
+  STORAGE_MIGRATIONS,
+  StorageMigration,
+  StorageMigrator,
+} from "../services/StorageMigrator";
+import { StorageService } from "../services/StorageService";
+import { createFakeConfiguration } from "./fakeConfiguration";
+
+suite("StorageMigrator Tests", () => {
+  let storageDir: string;
+  let mockStorage: Map<string, any>;
+  let context: vscode.ExtensionContext;
+  let storageService: StorageService;
+  let config: ReturnType<typeof createFakeConfiguration>;
+
+  const latestVersion =
+    STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
+
+  // Fake context, keys() is what the migrator uses to take its backup
+  const createFakeContext = () =>
+    ({
+      globalStorageUri: vscode.Uri.file(storageDir),
+      globalState: {
+        keys: () => [...mockStorage.keys()],
+        get: (key: string, defaultValue?: any) =>
+          mockStorage.get(key) ?? defaultValue,
+        update: (key: string, value: any) => {
+          if (value === undefined) mockStorage.delete(key);
+          else mockStorage.set(key, value);
+          return Promise.resolve();
+        },
+      },
+    } as unknown as vscode.ExtensionContext);
+
+  const readBackups = () => {
+    const dir = path.join(storageDir, "backups");
+    return fs.existsSync(dir)
+      ? fs
+          .readdirSync(dir)
+          .map((name) =>
+            JSON.parse(fs.readFileSync(path.join(dir, name), "utf8"))
+          )
+      : [];
+  };
+
+  setup(() => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), "typesh-migrator-"));
+    mockStorage = new Map<string, any>();
+    context = createFakeContext();
+    config = createFakeConfiguration();
+    storageService = new StorageService(context, () => config.configuration);
+  });
+
+  teardown(() => {
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  test("should seed defaults on first run without a backup", async () => {
+    const result = await new StorageMigrator(context, storageService).run();
+
+    assert.strictEqual(result.from, 0);
+    assert.strictEqual(result.to, latestVersion);
+    assert.strictEqual(result.backupUri, undefined);
+    assert.strictEqual(
+      mockStorage.get(StorageMigrator.VERSION_KEY),
+      latestVersion
+    );
+    assert.strictEqual(config.globalValues.size, 0);
+    assert.deepStrictEqual(mockStorage.get("customParagraphs"), []);
+    assert.strictEqual(mockStorage.get("defaultParagraphs").length, 3);
+    assert.deepStrictEqual(readBackups(), []);
+  });
+
+  test("should back up and migrate unversioned data", async () => {
+    mockStorage.set("isFirstRun", false);
+    mockStorage.set("extensionSettings", []);
+    mockStorage.set("customParagraphs", [
+      {
+        id: "kept",
+        title: "Kept",
+        content: "Some text",
+        dateAdded: "2024-01-01",
+      },
+      { id: "broken" },
+    ]);
+    mockStorage.set("typingSessions", [
+      {
+        id: "legacy",
+        startTime: "2024-01-01T00:00:00.000Z",
+        endTime: "2024-01-01T00:01:00.000Z",
+        targetText: "abc",
+        userInput: "abc",
+        keystrokes: [],
+        timerDuration: 60,
+        isCompleted: true,
+      },
+    ]);
+
+    const result = await new StorageMigrator(context, storageService).run();
+
+    const [backup] = readBackups();
+    assert.ok(result.backupUri, "Should report where the backup went");
+    assert.strictEqual(backup.schemaVersion, 0);
+    assert.deepStrictEqual(backup.data.extensionSettings, []);
+    assert.strictEqual(backup.data.typingSessions[0].id, "legacy");
+
+    assert.strictEqual(mockStorage.get("isFirstRun"), undefined);
+    assert.strictEqual(mockStorage.get("extensionSettings"), undefined);
+    assert.strictEqual((await storageService.getSettings()).defaultTimer, 60);
+    assert.deepStrictEqual(
+      mockStorage.get("customParagraphs").map((p: any) => p.id),
+      ["kept"]
+    );
+    assert.strictEqual(mockStorage.get("typingSessions"), undefined);
+    assert.ok(await storageService.getSessionById("legacy"));
+  });
+
+  test("should keep valid settings fields when moving them", async () => {
+    mockStorage.set("extensionSettings", { defaultTimer: 30, theme: "dark" });
+
+    await new StorageMigrator(context, storageService).run();
+
+    assert.deepStrictEqual(await storageService.getSettings(), {
+      defaultTimer: 30,
+      showRealTimeStats: true,
+      theme: "dark",
+    });
+  });
+
+  test("should only run steps newer than the stored version", async () => {
+    const ran: number[] = [];
+    const migrations: StorageMigration[] = [1, 2, 3].map((version) => ({
+      version,
+      description: `step ${version}`,
+      migrate: async () => {
+        ran.push(version);
+      },
+    }));
+    mockStorage.set(StorageMigrator.VERSION_KEY, 1);
+
+    const result = await new StorageMigrator(
+      context,
+      storageService,
+      migrations
+    ).run();
+
+    assert.deepStrictEqual(ran, [2, 3]);
+    assert.deepStrictEqual(result.applied, ["step 2", "step 3"]);
+
+    const again = await new StorageMigrator(
+      context,
+      storageService,
+      migrations
+    ).run();
+    assert.deepStrictEqual(again.applied, [], "Up to date runs nothing");
+  });
+
+  test("should resume from the step that failed", async () => {
+    let fail = true;
+    const migrations: StorageMigration[] = [
+      { version: 1, description: "ok", migrate: async () => {} },
+      {
+        version: 2,
+        description: "flaky",
+        migrate: async () => {
+          if (fail) throw new Error("disk full");
+        },
+      },
+    ];
+    const migrator = new StorageMigrator(context, storageService, migrations);
+
+    await assert.rejects(migrator.run(), /disk full/);
+    assert.strictEqual(migrator.getSchemaVersion(), 1);
+
+    fail = false;
+    const result = await migrator.run();
+    assert.deepStrictEqual(result.applied, ["flaky"]);
+    assert.strictEqual(migrator.getSchemaVersion(), 2);
+  });
+});
@@ -1,15 +1,23 @@
 import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import * as vscode from "vscode";
+import { SessionStore } from "../services/SessionStore";
 import { StorageService } from "../services/StorageService";
+import { TypingAnalyzer } from "../services/TypingAnalyzer";
 import {
   TypingSession,
   CustomParagraph,
   ExtensionSettings,
 } from "../models/TypingModel";
+import { createFakeConfiguration } from "./fakeConfiguration";
 
 suite("StorageService Tests", () => {
   let storageService: StorageService;
   let mockStorage: Map<string, any>;
+  let storageDir: string;
+  let config: ReturnType<typeof createFakeConfiguration>;
 
   // Mock VS Code extension context with working storage
   const createMockGlobalState = () => {
@@ -26,11 +34,21 @@ suite("StorageService Tests", () => {
   };
 
   setup(() => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), "typesh-storage-"));
     const mockExtensionContext = {
       globalState: createMockGlobalState(),
+      globalStorageUri: vscode.Uri.file(storageDir),
     } as unknown as vscode.ExtensionContext;
 
-    storageService = new StorageService(mockExtensionContext);
+    config = createFakeConfiguration();
+    storageService = new StorageService(
+      mockExtensionContext,
+      () => config.configuration
+    );
+  });
+
+  teardown(() => {
+    fs.rmSync(storageDir, { recursive: true, force: true });
   });
 
   function createMockSession(
@@ -161,6 +179,141 @@ suite("StorageService Tests", () => {
     }
   });
 
+  test("should store computed stats with each session", async () => {
+    const session = createMockSession({
+      mode: "passage",
+      paragraphId: "default-1",
+    });
+
+    const record = await storageService.saveSession(session);
+
+    const [stored] = await storageService.getSessionRecords();
+    assert.strictEqual(stored.session.id, session.id);
+    assert.strictEqual(stored.mode, "passage");
+    assert.strictEqual(stored.category, "Basic");
+    assert.strictEqual(stored.analyzerVersion, TypingAnalyzer.VERSION);
+    assert.deepStrictEqual(stored.stats, record.stats);
+    assert.ok(
+      stored.session.endTime instanceof Date,
+      "Dates should be revived on load"
+    );
+  });
+
+  test("should reanalyze records from another analyzer version once", async () => {
+    const session = createMockSession({ id: "stale" });
+    const stats = { ...TypingAnalyzer.analyzeSession(session), wpm: 999 };
+    const record = {
+      session,
+      stats,
+      mode: null,
+      target: 60,
+      analyzerVersion: TypingAnalyzer.VERSION - 1,
+    };
+    await new SessionStore(vscode.Uri.file(storageDir)).append(
+      record,
+      { ...record, session: { ...session, id: "synced" }, summaryOnly: true },
+      // Without times the analyzer throws, the record keeps what it has
+      { ...record, session: { ...session, id: "broken", startTime: null } }
+    );
+
+    const before = await storageService.getSessionRecords();
+    assert.ok(
+      before.every((r) => r.stats.wpm === 999),
+      "Reads keep the stored stats"
+    );
+
+    assert.strictEqual(await storageService.reanalyzeSessions(), 1);
+    assert.strictEqual(await storageService.reanalyzeSessions(), 0);
+
+    const records = await storageService.getSessionRecords();
+    const byId = new Map(records.map((r) => [r.session.id, r]));
+
+    assert.notStrictEqual(byId.get("stale")?.stats.wpm, 999);
+    assert.strictEqual(
+      byId.get("stale")?.analyzerVersion,
+      TypingAnalyzer.VERSION
+    );
+    assert.strictEqual(
+      byId.get("synced")?.stats.wpm,
+      999,
+      "Summaries have nothing to analyze again"
+    );
+    assert.strictEqual(byId.get("broken")?.stats.wpm, 999);
+  });
+
+  test("should move sessions from globalState into the store", async () => {
+    const daysAgo = (days: number) => new Date(Date.now() - days * 86400000);
+    const legacy = createMockSession({
+      id: "legacy-1",
+      startTime: daysAgo(2),
+      endTime: daysAgo(2),
+    });
+    const broken = { ...createMockSession({ id: "legacy-2" }), endTime: null };
+    const recorded = createMockSession({
+      id: "record-1",
+      startTime: daysAgo(1),
+      endTime: daysAgo(1),
+    });
+
+    mockStorage.set("typingSessions", [
+      JSON.parse(JSON.stringify(legacy)),
+      broken,
+    ]);
+    mockStorage.set("sessionRecords", [
+      JSON.parse(
+        JSON.stringify({
+          session: recorded,
+          stats: TypingAnalyzer.analyzeSession(recorded),
+          mode: "words",
+          target: 25,
+          analyzerVersion: 1,
+        })
+      ),
+    ]);
+    await storageService.saveSession(createMockSession({ id: "recent" }));
+
+    const migrated = await storageService.migrateLegacySessions();
+
+    assert.strictEqual(migrated, 2);
+    const records = await storageService.getSessionRecords();
+    assert.deepStrictEqual(
+      records.map((r) => r.session.id),
+      ["recent", "record-1", "legacy-1"]
+    );
+    assert.strictEqual(records[1].mode, "words");
+    assert.strictEqual(records[2].mode, null);
+    assert.strictEqual(records[2].stats.characterStats.correct, 44);
+    assert.strictEqual(mockStorage.get("sessionRecords"), undefined);
+    assert.deepStrictEqual(
+      mockStorage.get("typingSessions"),
+      [broken],
+      "Sessions that fail analysis should stay in place"
+    );
+  });
+
+  test("should keep more than 100 sessions and page through them", async () => {
+    for (let i = 0; i < 120; i++)
+      await storageService.saveSession(
+        createMockSession({
+          id: `session-${i}`,
+          endTime: new Date(Date.UTC(2024, 0, 1, 0, i)),
+          mode: i % 2 === 0 ? "words" : "tick-tick",
+        })
+      );
+
+    const page = await storageService.getSessions({
+      offset: 10,
+      limit: 5,
+      mode: "words",
+    });
+
+    assert.strictEqual(page.total, 60);
+    assert.deepStrictEqual(
+      page.records.map((r) => r.session.id),
+      ["session-98", "session-96", "session-94", "session-92", "session-90"]
+    );
+  });
+
   // Paragraph Management Tests
   test("should save and retrieve custom paragraphs", async () => {
     const paragraph = createMockParagraph();
@@ -244,6 +397,17 @@ suite("StorageService Tests", () => {
   });
 
   // Settings Management Tests
+  test("should treat missing settings as a first run", async () => {
+    const settings = await storageService.getSettings();
+
+    assert.strictEqual(settings.defaultTimer, 60);
+    assert.strictEqual(
+      config.globalValues.size,
+      0,
+      "Defaults should not be written to the user settings"
+    );
+  });
+
   test("should save and retrieve settings", async () => {
     const settings = createMockSettings();
 
@@ -317,6 +481,62 @@ suite("StorageService Tests", () => {
     }
   });
 
+  test("should fall back per setting on invalid configured values", async () => {
+    config.globalValues.set("defaultTimer", -10);
+    config.globalValues.set("theme", "dark");
+
+    const settings = await storageService.getSettings();
+
+    assert.strictEqual(settings.defaultTimer, 60);
+    assert.strictEqual(settings.theme, "dark");
+  });
+
+  test("should drop the retired settings sync scope", async () => {
+    config.globalValues.set("syncScope", ["settings", "paragraphs"]);
+
+    const settings = await storageService.getSettings();
+
+    assert.deepStrictEqual(settings.syncScope, ["paragraphs"]);
+  });
+
+  test("should write settings where they are configured", async () => {
+    config = createFakeConfiguration({ theme: "light" });
+
+    await storageService.updateSettings({ theme: "dark", defaultTimer: 30 });
+
+    assert.strictEqual(config.workspace.get("theme"), "dark");
+    assert.strictEqual(config.globalValues.get("theme"), undefined);
+    assert.strictEqual(config.globalValues.get("defaultTimer"), 30);
+  });
+
+  test("should reject invalid setting updates", async () => {
+    await assert.rejects(
+      storageService.updateSettings({ defaultTimer: 0 }),
+      /Invalid settings provided/
+    );
+    assert.strictEqual(config.globalValues.size, 0);
+  });
+
+  test("should move changed legacy settings into the configuration", async () => {
+    mockStorage.set("extensionSettings", {
+      defaultTimer: 30,
+      showRealTimeStats: true,
+      theme: "neon",
+    });
+    config.globalValues.set("showRealTimeStats", false);
+
+    await storageService.migrateLegacySettings();
+
+    assert.deepStrictEqual(
+      [...config.globalValues.entries()],
+      [
+        ["showRealTimeStats", false], // configured values are not overwritten
+        ["defaultTimer", 30],
+      ]
+    );
+    assert.strictEqual(mockStorage.get("extensionSettings"), undefined);
+  });
+
   // Integration Tests
   test("should create session from stored paragraph", async () => {
     const paragraph = createMockParagraph({
@@ -0,0 +1,75 @@
+import * as assert from "assert";
+import {
+  findAlignedErrors,
+  levenshteinDistance,
+} from "../services/components/stringUtils";
+import { analyzeErrorPatterns } from "../services/components/errorAnalyzer";
+
+suite("String Utils Tests", () => {
+  test("should compute the edit distance", () => {
+    assert.strictEqual(levenshteinDistance("kitten", "sitting"), 3);
+    assert.strictEqual(levenshteinDistance("", "abc"), 3);
+    assert.strictEqual(levenshteinDistance("same", "same"), 0);
+  });
+
+  test("should classify swapped characters as one transposition", () => {
+    assert.deepStrictEqual(findAlignedErrors("the cat", "teh cat"), [
+      {
+        expectedChar: "h",
+        actualChar: "e",
+        position: 1,
+        type: "transposition",
+      },
+    ]);
+
+    const [pattern] = analyzeErrorPatterns("the cat", "teh cat");
+    assert.strictEqual(pattern.errorType, "transposition");
+  });
+
+  test("should not cascade a skipped character", () => {
+    assert.deepStrictEqual(findAlignedErrors("hello world", "helo world"), [
+      { expectedChar: "l", actualChar: null, position: 2, type: "deletion" },
+    ]);
+    assert.deepStrictEqual(findAlignedErrors("hello world", "hello wrold"), [
+      {
+        expectedChar: "o",
+        actualChar: "r",
+        position: 7,
+        type: "transposition",
+      },
+    ]);
+  });
+
+  test("should keep later words aligned after a missed or extra space", () => {
+    assert.deepStrictEqual(findAlignedErrors("the cat sat", "thecat sat"), [
+      { expectedChar: " ", actualChar: null, position: 3, type: "deletion" },
+    ]);
+    assert.deepStrictEqual(findAlignedErrors("the cat sat", "th e cat sat"), [
+      { expectedChar: null, actualChar: " ", position: 2, type: "insertion" },
+    ]);
+  });
+
+  test("should report untyped and extra text at the end", () => {
+    assert.deepStrictEqual(
+      findAlignedErrors("hello world", "hello wo").map((e) => [
+        e.expectedChar,
+        e.position,
+        e.type,
+      ]),
+      [
+        ["r", 8, "deletion"],
+        ["l", 9, "deletion"],
+        ["d", 10, "deletion"],
+      ]
+    );
+    assert.deepStrictEqual(findAlignedErrors("hi", "hi there"), [
+      { expectedChar: null, actualChar: " ", position: 2, type: "insertion" },
+      ...[..."there"].map((char) => ({
+        expectedChar: null,
+        actualChar: char,
+        position: 2,
+        type: "insertion",
+      })),
+    ]);
+  });
+});
@@ -0,0 +1,240 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import {
+  mergeEntries,
+  SYNC_KEYS,
+  SyncEntry,
+  SyncService,
+} from "../services/SyncService";
+import { StorageService } from "../services/StorageService";
+import { VirtualClock } from "../services/components/clock";
+import {
+  CustomParagraph,
+  SyncScope,
+  TypingSession,
+} from "../models/TypingModel";
+import { createFakeConfiguration } from "./fakeConfiguration";
+
+suite("SyncService Tests", () => {
+  let storageDirs: string[];
+
+  interface Machine {
+    state: Map<string, any>;
+    syncedKeys: string[];
+    storage: StorageService;
+    sync: SyncService;
+  }
+
+  // Each machine has its own globalState, setKeysForSync is recorded so copies can be simulated
+  const createMachine = (clock?: VirtualClock): Machine => {
+    const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), "typesh-sync-"));
+    storageDirs.push(storageDir);
+
+    const machine = { state: new Map<string, any>(), syncedKeys: [] } as any;
+    const context = {
+      globalStorageUri: vscode.Uri.file(storageDir),
+      globalState: {
+        get: (key: string, defaultValue?: any) =>
+          machine.state.get(key) ?? defaultValue,
+        update: (key: string, value: any) => {
+          machine.state.set(key, JSON.parse(JSON.stringify(value ?? null)));
+          return Promise.resolve();
+        },
+        setKeysForSync: (keys: string[]) => (machine.syncedKeys = keys),
+      },
+    } as unknown as vscode.ExtensionContext;
+
+    const { configuration } = createFakeConfiguration();
+    machine.storage = new StorageService(context, () => configuration);
+    machine.sync = new SyncService(context, machine.storage, clock);
+    return machine;
+  };
+
+  const enableSync = async (machine: Machine, syncScope: SyncScope[]) => {
+    await machine.storage.updateSettings({ syncScope });
+    await machine.sync.sync();
+  };
+
+  // What Settings Sync does: the registered keys are copied to the other machine
+  const transfer = (from: Machine, to: Machine) =>
+    from.syncedKeys.forEach((key) => to.state.set(key, from.state.get(key)));
+
+  function createParagraph(id: string): CustomParagraph {
+    return {
+      id,
+      title: `Paragraph ${id}`,
+      content: "Some practice text",
+      dateAdded: new Date(),
+    };
+  }
+
+  function createSession(id: string): TypingSession {
+    return {
+      id,
+      startTime: new Date(Date.now() - 60000),
+      endTime: new Date(),
+      targetText: "hello world",
+      userInput: "hello world",
+      keystrokes: [{ key: "h", timestamp: 1, timeSinceLast: 0 }],
+      timerDuration: 60,
+      isCompleted: true,
+    };
+  }
+
+  setup(() => {
+    storageDirs = [];
+  });
+
+  teardown(() => {
+    storageDirs.forEach((dir) =>
+      fs.rmSync(dir, { recursive: true, force: true })
+    );
+  });
+
+  test("should keep the newer entry and prefer deletions on ties", () => {
+    const local: SyncEntry<string>[] = [
+      { id: "a", updatedAt: 2, value: "local a" },
+      { id: "b", updatedAt: 1, value: "local b" },
+      { id: "c", updatedAt: 5, value: "local c" },
+    ];
+    const remote: SyncEntry<string>[] = [
+      { id: "a", updatedAt: 1, value: "remote a" },
+      { id: "b", updatedAt: 3, value: "remote b" },
+      { id: "c", updatedAt: 5 },
+      { id: "d", updatedAt: 1, value: "remote d" },
+    ];
+
+    assert.deepStrictEqual(mergeEntries(local, remote), [
+      { id: "a", updatedAt: 2, value: "local a" },
+      { id: "b", updatedAt: 3, value: "remote b" },
+      { id: "c", updatedAt: 5 },
+      { id: "d", updatedAt: 1, value: "remote d" },
+    ]);
+  });
+
+  test("should not sync anything until a scope is chosen", async () => {
+    const machine = createMachine();
+    await machine.storage.saveCustomParagraph(createParagraph("p1"));
+
+    assert.strictEqual(await machine.sync.sync(), 0);
+    assert.deepStrictEqual(machine.syncedKeys, []);
+    assert.strictEqual(machine.state.get(SYNC_KEYS.paragraphs), undefined);
+  });
+
+  test("should sync again after changes made during a sync", async () => {
+    const clock = new VirtualClock();
+    const a = createMachine();
+    const b = createMachine(clock);
+    b.storage.onDataChange(() => b.sync.scheduleSync());
+    await enableSync(a, ["paragraphs"]);
+    await enableSync(b, ["paragraphs"]);
+
+    // Pulling the paragraph is a change made while b syncs
+    await a.storage.saveCustomParagraph(createParagraph("p1"));
+    await a.sync.sync();
+    transfer(a, b);
+    assert.strictEqual(await b.sync.sync(), 1);
+    assert.strictEqual(clock.getPendingCount(), 1, "Another sync follows");
+
+    clock.advance(5000);
+    await b.sync.sync();
+    assert.strictEqual(clock.getPendingCount(), 0, "Then nothing is left");
+  });
+
+  test("should carry paragraphs and their deletions between machines", async () => {
+    const a = createMachine();
+    const b = createMachine();
+    await a.storage.saveCustomParagraph(createParagraph("p1"));
+    await a.storage.saveCustomParagraph(createParagraph("p2"));
+    await enableSync(a, ["paragraphs"]);
+    await enableSync(b, ["paragraphs"]);
+
+    transfer(a, b);
+    assert.strictEqual(await b.sync.sync(), 2);
+    assert.deepStrictEqual(
+      (await b.storage.getCustomParagraphs()).map((p) => p.id),
+      ["p1", "p2"]
+    );
+
+    await b.storage.deleteCustomParagraph("p1");
+    await b.sync.sync();
+    transfer(b, a);
+    await a.sync.sync();
+
+    assert.deepStrictEqual(
+      (await a.storage.getCustomParagraphs()).map((p) => p.id),
+      ["p2"]
+    );
+  });
+
+  test("should keep a deletion made while a sync runs", async () => {
+    const a = createMachine();
+    const b = createMachine();
+    await a.storage.saveCustomParagraph(createParagraph("p1"));
+    await enableSync(a, ["paragraphs", "sessions"]);
+    await enableSync(b, ["paragraphs", "sessions"]);
+    transfer(a, b);
+    await b.sync.sync();
+
+    // The paragraph is deleted after b synced paragraphs, while it reads sessions
+    const getSessionIds = b.storage.getSessionIds.bind(b.storage);
+    b.storage.getSessionIds = async () => {
+      b.storage.getSessionIds = getSessionIds;
+      await b.storage.deleteCustomParagraph("p1");
+      return getSessionIds();
+    };
+    await b.sync.sync();
+
+    const { deletedParagraphs } = await b.storage.getSyncMetadata();
+    assert.ok(deletedParagraphs["p1"], "The deletion is still recorded");
+
+    await b.sync.sync();
+    assert.deepStrictEqual(await b.storage.getCustomParagraphs(), []);
+
+    transfer(b, a);
+    await a.sync.sync();
+    assert.deepStrictEqual(await a.storage.getCustomParagraphs(), []);
+  });
+
+  test("should sync session summaries without keystrokes", async () => {
+    const a = createMachine();
+    const b = createMachine();
+    const { stats } = await a.storage.saveSession(createSession("s1"));
+    await enableSync(a, ["sessions"]);
+    await enableSync(b, ["sessions"]);
+
+    const [synced] = a.state.get(SYNC_KEYS.sessions);
+    assert.strictEqual(synced.value.session.keystrokes, undefined);
+    assert.strictEqual(synced.value.stats.errorPatterns, undefined);
+    assert.strictEqual(synced.value.stats.keystrokeErrors, undefined);
+
+    transfer(a, b);
+    assert.strictEqual(await b.sync.sync(), 1);
+
+    const [record] = await b.storage.getSessionRecords();
+    assert.strictEqual(record.session.id, "s1");
+    assert.strictEqual(record.summaryOnly, true);
+    assert.deepStrictEqual(record.session.keystrokes, []);
+    assert.strictEqual(record.stats.wpm, stats.wpm);
+
+    // Syncing again changes nothing on either side
+    transfer(b, a);
+    assert.strictEqual(await a.sync.sync(), 0);
+    assert.strictEqual((await a.storage.getSessionRecords()).length, 1);
+  });
+
+  test("should ignore malformed synced entries", async () => {
+    const machine = createMachine();
+    machine.state.set(SYNC_KEYS.paragraphs, [
+      { id: "", updatedAt: 1, value: createParagraph("") },
+      { id: "x", updatedAt: "soon" },
+      { id: "y", updatedAt: 1, value: { id: "y" } },
+    ]);
+
+    await enableSync(machine, ["paragraphs"]);
+    assert.deepStrictEqual(await machine.storage.getCustomParagraphs(), []);
+  });
+});
@@ -49,8 +49,9 @@ suite("Typing Analyzer tests", () => {
 
     const stats = TypingAnalyzer.analyzeSession(session);
 
-    // verify WPM (here 2 words in 1 minute = 2 WPM)
+    // verify WPM (11 correct characters / 5 in 1 minute = 2.2, rounded to 2)
     assert.strictEqual(stats.wpm, 2);
+    assert.strictEqual(stats.wordsWPM, 2);
     assert.strictEqual(stats.accuracy, 100);
     assert.strictEqual(stats.errorCount, 0);
 
@@ -123,7 +124,7 @@ suite("Typing Analyzer tests", () => {
 
     const stats = TypingAnalyzer.analyzeSession(session);
 
-    // Should prevent division by zero, use minimum time
+    // A second of typing still gives finite speeds
     assert.ok(stats.wpm >= 0);
     assert.ok(stats.grossWPM >= 0);
   });
@@ -270,11 +271,10 @@ suite("Typing Analyzer tests", () => {
     // Should handle long text with multiple errors
     assert.ok(stats.errorCount > 0);
     assert.ok(stats.accuracy < 100);
-    assert.ok(stats.wpm > 0);
-    assert.ok(stats.grossWPM > 0);
-    // Both WPM calculations should be reasonable numbers
-    assert.ok(stats.wpm > 10); // Should be a decent typing speed
-    assert.ok(stats.grossWPM > 10);
+    // Aligned, the swapped "kc" and the dropped "u" cost three of 63 characters
+    assert.strictEqual(stats.wpm, 12); // 60 / 5 in one minute
+    assert.strictEqual(stats.wordsWPM, 11); // all but "quick" and "jumps"
+    assert.strictEqual(stats.grossWPM, 12); // 62 typed / 5
   });
 
   test("should handle heavy correction scenarios", () => {
@@ -322,4 +322,23 @@ suite("Typing Analyzer tests", () => {
     assert.strictEqual(stats.characterStats.extra, 0); // No extra characters
     assert.ok(stats.wpm >= 0); // Should still calculate WPM
   });
+
+  test("should score only the reached text of a timed session", () => {
+    const session = createMockSession({
+      mode: "tick-tick",
+      targetText: "the quick brown fox jumps over the lazy dog",
+      userInput: "the quick brpwn",
+      keystrokes: createMockKeystrokes("the quick brpwn"),
+    });
+
+    const stats = TypingAnalyzer.analyzeSession(session);
+
+    // Text past where the timer stopped was never seen and is not an error
+    assert.strictEqual(stats.characterStats.missed, 0);
+    assert.strictEqual(stats.errorCount, 1);
+    assert.deepStrictEqual(
+      stats.errorPatterns.map((p) => [p.character, p.errorType]),
+      [["o", "substitution"]]
+    );
+  });
 });
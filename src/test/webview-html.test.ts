@@ -0,0 +1,102 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  DEV_SERVER_ENV,
+  getDevServerUrl,
+  getWebviewHtml,
+} from "../webviewHtml";
+
+suite("Webview HTML Tests", () => {
+  let extensionRoot: string;
+
+  const mockWebview = {
+    cspSource: "https://webview.test",
+    asWebviewUri: (uri: vscode.Uri) => uri,
+  } as unknown as vscode.Webview;
+
+  const getNonce = (html: string): string => {
+    const match = html.match(/'nonce-([^']+)'/);
+    assert.ok(match, "CSP should declare a nonce");
+    return match![1];
+  };
+
+  setup(() => {
+    extensionRoot = fs.mkdtempSync(path.join(os.tmpdir(), "typesh-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(extensionRoot, { recursive: true, force: true });
+    delete process.env[DEV_SERVER_ENV];
+  });
+
+  const writeBuild = () => {
+    const assetsDir = path.join(extensionRoot, "dist", "webview", "assets");
+    fs.mkdirSync(assetsDir, { recursive: true });
+    fs.writeFileSync(path.join(assetsDir, "index.js"), "");
+    fs.writeFileSync(path.join(assetsDir, "index.css"), "");
+  };
+
+  test("should load the built bundle under a strict CSP", () => {
+    writeBuild();
+
+    const html = getWebviewHtml(mockWebview, vscode.Uri.file(extensionRoot));
+    const nonce = getNonce(html);
+
+    assert.ok(html.includes("default-src 'none'"));
+    assert.ok(
+      html.includes(`script-src 'nonce-${nonce}' https://webview.test`),
+      "Scripts should be limited to the nonce and the webview source"
+    );
+    assert.ok(!html.includes("unsafe-inline"), "No inline styles in prod");
+    assert.ok(html.includes(`nonce="${nonce}"`), "Entry script needs nonce");
+    assert.ok(html.includes("assets/index.js"));
+    assert.ok(html.includes("assets/index.css"));
+  });
+
+  test("should generate a fresh nonce on every load", () => {
+    writeBuild();
+    const extensionUri = vscode.Uri.file(extensionRoot);
+
+    const first = getNonce(getWebviewHtml(mockWebview, extensionUri));
+    const second = getNonce(getWebviewHtml(mockWebview, extensionUri));
+
+    assert.notStrictEqual(first, second);
+  });
+
+  test("should explain how to build when the bundle is missing", () => {
+    const html = getWebviewHtml(mockWebview, vscode.Uri.file(extensionRoot));
+
+    assert.ok(html.includes("npm run build-webview"));
+    assert.ok(!html.includes("<script"), "Fallback page runs no scripts");
+  });
+
+  test("should point at the dev server in dev mode", () => {
+    const html = getWebviewHtml(
+      mockWebview,
+      vscode.Uri.file(extensionRoot),
+      "http://localhost:5173"
+    );
+
+    assert.ok(html.includes("http://localhost:5173/@vite/client"));
+    assert.ok(html.includes("http://localhost:5173/src/main.tsx"));
+    assert.ok(
+      html.includes("connect-src http://localhost:5173 ws://localhost:5173")
+    );
+  });
+
+  test("should only read the dev server url outside production", () => {
+    process.env[DEV_SERVER_ENV] = "http://localhost:5173/";
+
+    assert.strictEqual(
+      getDevServerUrl(vscode.ExtensionMode.Development),
+      "http://localhost:5173"
+    );
+    assert.strictEqual(
+      getDevServerUrl(vscode.ExtensionMode.Production),
+      undefined
+    );
+  });
+});
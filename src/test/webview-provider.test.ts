@@ -0,0 +1,353 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { TypeshWebViewProvider } from "../webviewProvider";
+import { StorageService } from "../services/StorageService";
+import { HISTORY_PAGE_SIZE, PROTOCOL_VERSION } from "../shared/messageProtocol";
+import { createFakeConfiguration } from "./fakeConfiguration";
+
+suite("TypeshWebViewProvider Tests", () => {
+  let provider: TypeshWebViewProvider;
+  let storageService: StorageService;
+  let postedMessages: any[];
+  let deliver: (message: any) => Promise<void>;
+  let storageDir: string;
+
+  const sendToExtension = (message: any) =>
+    deliver({ version: PROTOCOL_VERSION, ...message });
+
+  const createMockContext = () => {
+    const mockStorage = new Map<string, any>();
+    return {
+      extensionUri: vscode.Uri.file("/typesh"),
+      globalStorageUri: vscode.Uri.file(storageDir),
+      extensionMode: vscode.ExtensionMode.Test,
+      globalState: {
+        get: (key: string, defaultValue: any) =>
+          mockStorage.get(key) ?? defaultValue,
+        update: (key: string, value: any) => {
+          mockStorage.set(key, value);
+          return Promise.resolve();
+        },
+      },
+    } as unknown as vscode.ExtensionContext;
+  };
+
+  const createMockWebviewView = () => {
+    const webview = {
+      options: {},
+      html: "",
+      asWebviewUri: (uri: vscode.Uri) => uri,
+      postMessage: (message: any) => {
+        postedMessages.push(message);
+        return Promise.resolve(true);
+      },
+      onDidReceiveMessage: (listener: (message: any) => Promise<void>) => {
+        deliver = listener;
+        return { dispose: () => {} };
+      },
+    };
+
+    return {
+      webview,
+      show: () => {},
+      onDidDispose: () => ({ dispose: () => {} }),
+    } as unknown as vscode.WebviewView;
+  };
+
+  // sessionCompleted is posted after async analysis and saving
+  const waitForMessage = async (type: string): Promise<any> => {
+    for (let i = 0; i < 50; i++) {
+      const message = postedMessages.find((m) => m.type === type);
+      if (message) return message;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    assert.fail(`Timed out waiting for '${type}' message`);
+  };
+
+  setup(() => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), "typesh-provider-"));
+    postedMessages = [];
+    const context = createMockContext();
+    const { configuration } = createFakeConfiguration();
+    storageService = new StorageService(context, () => configuration);
+    provider = new TypeshWebViewProvider(context, storageService);
+
+    provider.resolveWebviewView(
+      createMockWebviewView(),
+      {} as vscode.WebviewViewResolveContext,
+      {} as vscode.CancellationToken
+    );
+  });
+
+  teardown(() => {
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  test("should use the view id contributed in package.json", () => {
+    assert.strictEqual(TypeshWebViewProvider.viewType, "typingTest.webview");
+  });
+
+  test("should start a session and stream updates", async () => {
+    await sendToExtension({
+      type: "startSession",
+      payload: {
+        sessionId: "ignored",
+        mode: "passage",
+        target: 0,
+        targetText: "hello",
+      },
+    });
+
+    const started = postedMessages.find((m) => m.type === "sessionStarted");
+    assert.ok(started, "Should post sessionStarted");
+    assert.ok(started.payload.sessionId, "Should include the session id");
+    assert.strictEqual(started.payload.config.targetText, "hello");
+    assert.strictEqual(started.payload.config.mode, "passage");
+
+    await sendToExtension({ type: "keystroke", payload: { character: "h" } });
+
+    const updates = postedMessages.filter((m) => m.type === "sessionUpdate");
+    const lastUpdate = updates[updates.length - 1];
+    assert.strictEqual(lastUpdate.payload.currentInput, "h");
+    assert.strictEqual(lastUpdate.payload.isActive, true);
+  });
+
+  test("should analyze and persist a completed session", async () => {
+    await sendToExtension({
+      type: "startSession",
+      payload: {
+        sessionId: "ignored",
+        mode: "passage",
+        target: 0,
+        targetText: "hi",
+      },
+    });
+
+    await sendToExtension({ type: "keystroke", payload: { character: "h" } });
+    await sendToExtension({ type: "keystroke", payload: { character: "i" } });
+
+    const completed = await waitForMessage("sessionCompleted");
+    assert.strictEqual(completed.payload.session.userInput, "hi");
+    assert.strictEqual(completed.payload.stats.characterStats.correct, 2);
+
+    const sessions = await storageService.getAllSessions();
+    assert.strictEqual(sessions.length, 1, "Session should be persisted");
+    assert.strictEqual(sessions[0].id, completed.payload.session.id);
+  });
+
+  test("should hold a command-started session until the webview is ready", async () => {
+    await provider.startTest();
+    assert.ok(
+      !postedMessages.some((m) => m.type === "sessionStarted"),
+      "The app has not mounted yet"
+    );
+
+    await sendToExtension({ type: "ready" });
+
+    const started = postedMessages.find((m) => m.type === "sessionStarted");
+    assert.ok(started, "Should start once the webview is ready");
+    assert.strictEqual(started.payload.config.mode, "tick-tick");
+
+    await sendToExtension({ type: "endSession" });
+    await waitForMessage("sessionCompleted");
+    assert.deepStrictEqual(
+      await storageService.getAllSessions(),
+      [],
+      "Sessions without keystrokes should not be saved"
+    );
+  });
+
+  test("should load history with stats and delete sessions", async () => {
+    await sendToExtension({
+      type: "startSession",
+      payload: {
+        sessionId: "ignored",
+        mode: "passage",
+        target: 0,
+        targetText: "hi",
+        paragraphId: "default-1",
+      },
+    });
+    await sendToExtension({ type: "keystroke", payload: { character: "h" } });
+    await sendToExtension({ type: "keystroke", payload: { character: "i" } });
+    const completed = await waitForMessage("sessionCompleted");
+
+    const id = completed.payload.session.id;
+
+    await sendToExtension({
+      type: "getSessionHistory",
+      payload: { offset: 0, limit: 10 },
+      requestId: "req-h",
+    });
+    const history = postedMessages.find((m) => m.requestId === "req-h");
+    assert.strictEqual(history.type, "sessionHistoryLoaded");
+    assert.strictEqual(history.payload.total, 1);
+    const [summary] = history.payload.summaries;
+    assert.strictEqual(summary.mode, "passage");
+    assert.strictEqual(summary.paragraphId, "default-1");
+    assert.strictEqual(summary.stats.characterStats.correct, 2);
+    assert.strictEqual(
+      summary.session.keystrokes,
+      undefined,
+      "History pages leave the keystrokes out"
+    );
+
+    await sendToExtension({
+      type: "getSession",
+      payload: { id },
+      requestId: "req-s",
+    });
+    const full = postedMessages.find((m) => m.requestId === "req-s");
+    assert.strictEqual(full.type, "sessionLoaded");
+    assert.strictEqual(full.payload.session.keystrokes.length, 2);
+
+    await sendToExtension({
+      type: "getKeyHeatmap",
+      payload: { ids: [id], layout: "qwerty" },
+      requestId: "req-k",
+    });
+    const heatmap = postedMessages.find((m) => m.requestId === "req-k");
+    assert.strictEqual(heatmap.type, "keyHeatmapLoaded");
+    assert.strictEqual(heatmap.payload.sessions, 1);
+
+    await sendToExtension({
+      type: "deleteSession",
+      payload: { id },
+      requestId: "req-d",
+    });
+    const afterDelete = postedMessages.find((m) => m.requestId === "req-d");
+    assert.strictEqual(afterDelete.type, "ack");
+    assert.deepStrictEqual(await storageService.getAllSessions(), []);
+  });
+
+  test("should compute history stats over every saved session", async () => {
+    const day = (n: number) => new Date(2024, 2, n, 12);
+    await storageService.saveSessions(
+      Array.from({ length: HISTORY_PAGE_SIZE + 10 }, (_, i) => ({
+        session: {
+          id: `s${i}`,
+          startTime: day(1 + (i % 20)),
+          endTime: new Date(day(1 + (i % 20)).getTime() + 60000),
+          targetText: "hi",
+          userInput: "hi",
+          keystrokes: [],
+          timerDuration: 60,
+          isCompleted: true,
+          mode: i % 2 === 0 ? ("words" as const) : ("passage" as const),
+        },
+      }))
+    );
+
+    await sendToExtension({
+      type: "getHistoryStats",
+      payload: {
+        filters: { mode: "words", category: "all", from: "2024-03-02", to: "" },
+        period: "day",
+      },
+      requestId: "req-stats",
+    });
+    const stats = postedMessages.find((m) => m.requestId === "req-stats");
+
+    assert.strictEqual(stats.type, "historyStatsLoaded");
+    // Odd days of March from the 3rd on, three word sessions each, past the first page
+    assert.strictEqual(stats.payload.sessions, 27);
+    assert.strictEqual(stats.payload.trend.length, 9);
+    assert.strictEqual(stats.payload.heatmapIds.length, 27);
+  });
+
+  test("should post an error when no session is running", async () => {
+    await sendToExtension({ type: "keystroke", payload: { character: "a" } });
+
+    const error = postedMessages.find((m) => m.type === "error");
+    assert.ok(error, "Should post an error message");
+    assert.strictEqual(error.payload.code, "handlerFailed");
+    assert.strictEqual(error.payload.message, "No active typing session");
+  });
+
+  test("should reply with a typed error to malformed messages", async () => {
+    await sendToExtension({ type: "keystroke", payload: { character: 42 } });
+    await sendToExtension({ type: "notAMessage" });
+    await deliver({ type: "getSettings", version: PROTOCOL_VERSION + 1 });
+
+    const errors = postedMessages.filter((m) => m.type === "error");
+    assert.deepStrictEqual(
+      errors.map((e) => e.payload.code),
+      ["invalidMessage", "invalidMessage", "unsupportedVersion"]
+    );
+    assert.ok(
+      errors.every((e) => e.version === PROTOCOL_VERSION),
+      "Replies should carry the protocol version"
+    );
+  });
+
+  test("should save paragraphs and reply with the updated list", async () => {
+    await sendToExtension({
+      type: "saveParagraph",
+      payload: {
+        id: "paragraph-1",
+        title: "Test",
+        content: "Some practice text",
+        dateAdded: new Date(),
+      },
+    });
+
+    const loaded = postedMessages.find((m) => m.type === "paragraphsLoaded");
+    assert.ok(loaded, "Should post paragraphsLoaded");
+    assert.ok(
+      loaded.payload.some((p: any) => p.id === "paragraph-1"),
+      "Saved paragraph should be in the list"
+    );
+    assert.ok(
+      loaded.payload.some((p: any) => p.id === "default-1"),
+      "Built-in paragraphs should be listed too"
+    );
+  });
+
+  test("should echo the request id on replies", async () => {
+    await sendToExtension({ type: "getSettings", requestId: "req-1" });
+
+    const reply = postedMessages.find((m) => m.requestId === "req-1");
+    assert.ok(reply, "Reply should carry the request id");
+    assert.strictEqual(reply.type, "settingsLoaded");
+  });
+
+  test("should acknowledge requests without a natural reply", async () => {
+    await sendToExtension({
+      type: "startSession",
+      payload: {
+        sessionId: "ignored",
+        mode: "passage",
+        target: 0,
+        targetText: "hello",
+      },
+    });
+    await sendToExtension({ type: "pauseSession", requestId: "req-2" });
+    await sendToExtension({ type: "keystroke", payload: { character: "h" } });
+
+    const acks = postedMessages.filter((m) => m.type === "ack");
+    assert.strictEqual(acks.length, 1, "Only requests with an id are acked");
+    assert.strictEqual(acks[0].requestId, "req-2");
+    assert.deepStrictEqual(acks[0].payload, { requestType: "pauseSession" });
+  });
+
+  test("should tie errors to the request that caused them", async () => {
+    await sendToExtension({ type: "endSession", requestId: "req-3" });
+    await sendToExtension({
+      type: "deleteParagraph",
+      payload: {},
+      requestId: "req-4",
+    });
+
+    const errors = postedMessages.filter((m) => m.type === "error");
+    assert.deepStrictEqual(
+      errors.map((e) => [e.requestId, e.payload.code]),
+      [
+        ["req-3", "handlerFailed"],
+        ["req-4", "invalidMessage"],
+      ]
+    );
+  });
+});
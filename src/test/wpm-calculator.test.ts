@@ -0,0 +1,68 @@
+import * as assert from "assert";
+import {
+  calculateGrossWPM,
+  calculateNetWPM,
+  calculateSpeed,
+  calculateWordsWPM,
+} from "../services/components/wpmCalculator";
+import { calculateCorrectWords } from "../services/components/calculations";
+
+suite("WPM Calculator Tests", () => {
+  test("should count five characters as a word", () => {
+    assert.strictEqual(calculateNetWPM(50, 1), 10);
+    assert.strictEqual(calculateNetWPM(47, 0.5), 19); // 9.4 words in half a minute is 18.8
+    assert.strictEqual(calculateGrossWPM(300, 2), 30);
+    assert.strictEqual(calculateWordsWPM(12, 0.25), 48);
+  });
+
+  test("should report no speed without elapsed time", () => {
+    for (const minutes of [0, -1, NaN, Infinity]) {
+      assert.strictEqual(calculateNetWPM(10, minutes), 0);
+      assert.strictEqual(calculateGrossWPM(10, minutes), 0);
+      assert.strictEqual(calculateWordsWPM(10, minutes), 0);
+    }
+  });
+
+  test("should compare the typed words, not the target with itself", () => {
+    assert.strictEqual(calculateCorrectWords("hello world", "hello there"), 1);
+    assert.strictEqual(calculateCorrectWords("hello world", "hello world"), 2);
+    assert.strictEqual(calculateCorrectWords("hello world", "hello wor"), 1);
+    assert.strictEqual(calculateCorrectWords("hello world", "  "), 0);
+  });
+
+  test("should compute net, words and raw speed together", () => {
+    // 22 characters, "sat" typed as "sit", three mistakes corrected on the way
+    const speed = calculateSpeed(
+      "the cat sat on the mat",
+      "the cat sit on the mat",
+      25,
+      0.25
+    );
+
+    assert.deepStrictEqual(speed, {
+      net: 17, // 21 correct / 5 / 0.25 = 16.8
+      words: 20, // 5 of 6 words / 0.25
+      raw: 20, // 25 typed / 5 / 0.25
+    });
+  });
+
+  test("should not let one dropped character void the rest", () => {
+    // "quick" typed as "quck", every later character is one place early
+    const speed = calculateSpeed(
+      "the quick brown fox",
+      "the quck brown fox",
+      18,
+      0.25
+    );
+
+    assert.strictEqual(speed.net, 14); // 18 correct / 5 / 0.25 = 14.4
+  });
+
+  test("should not credit a wrong input with the target's words", () => {
+    const speed = calculateSpeed("hello world", "xxxxx xxxxx", 11, 1);
+
+    assert.strictEqual(speed.net, 0);
+    assert.strictEqual(speed.words, 0);
+    assert.strictEqual(speed.raw, 2); // 11 typed / 5 = 2.2
+  });
+});
@@ -1,21 +1,287 @@
+import { useEffect, useState } from "react";
+import HistoryView from "./components/HistoryView";
+import ModePicker from "./components/ModePicker";
+import ResultsView from "./components/ResultsView";
+import StatsHeader from "./components/StatsHeader";
+import TypingSurface from "./components/TypingSurface";
+import { useSessionHistory } from "./hooks/useSessionHistory";
+import { useTypingSession } from "./hooks/useTypingSession";
+import { useVSCodeAPI } from "./hooks/useVSCodeAPI";
+import {
+  buildPracticeText,
+  buildTargetText,
+  MODE_TARGETS,
+} from "./lib/textGenerator";
+import { CustomParagraph, ExtensionSettings, SessionMode } from "./types";
+
+const primaryButton =
+  "bg-primary text-black px-4 py-2 rounded hover:bg-primary/80 transition-colors disabled:opacity-50";
+type View = "test" | "history";
+
+const secondaryButton =
+  "border border-[var(--vscode-button-border)] px-4 py-2 rounded hover:bg-[var(--vscode-button-hoverBackground)] transition-colors";
+
 function App() {
+  const { sendMessage, handleMessage } = useVSCodeAPI();
+  const session = useTypingSession();
+  const history = useSessionHistory();
+
+  const [view, setView] = useState<View>("test");
+  const [mode, setMode] = useState<SessionMode>("tick-tick");
+  const [target, setTarget] = useState(MODE_TARGETS["tick-tick"][2]);
+  const [paragraphs, setParagraphs] = useState<CustomParagraph[]>([]);
+  const [paragraphId, setParagraphId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<ExtensionSettings | null>(null);
+
+  useEffect(
+    () =>
+      handleMessage((message) => {
+        // History sent without a request comes from the showHistory command
+        if (message.type === "sessionHistoryLoaded" && !message.requestId)
+          setView("history");
+
+        // Starting from a command should bring the test back into view
+        if (message.type === "sessionStarted") setView("test");
+
+        if (message.type === "settingsLoaded") setSettings(message.payload);
+
+        if (message.type !== "paragraphsLoaded") return;
+
+        setParagraphs(message.payload);
+        setParagraphId((current) =>
+          message.payload.some((p) => p.id === current)
+            ? current
+            : message.payload[0]?.id ?? null
+        );
+      }),
+    [handleMessage]
+  );
+
+  useEffect(() => {
+    sendMessage("getParagraphs");
+    sendMessage("getSettings");
+  }, [sendMessage]);
+  // Sent after every listener is in place, sessions started from commands wait for it
+  useEffect(() => sendMessage("ready"), [sendMessage]);
+
+  // "auto" keeps the colors VS Code gives the webview, index.css has the fixed ones
+  const theme = settings?.theme;
+  useEffect(() => {
+    if (theme === "light" || theme === "dark")
+      document.body.dataset.theme = theme;
+    else delete document.body.dataset.theme;
+  }, [theme]);
+
+  const defaultTimer = settings?.defaultTimer;
+
+  // The configured timer is the default time target, and one of the choices
+  const targetsFor = (nextMode: SessionMode) =>
+    nextMode === "tick-tick" && defaultTimer !== undefined
+      ? [...new Set([...MODE_TARGETS[nextMode], defaultTimer])].sort(
+          (a, b) => a - b
+        )
+      : MODE_TARGETS[nextMode];
+
+  // Only a changed setting moves the target, switching modes picks its own
+  useEffect(() => {
+    if (defaultTimer !== undefined && mode === "tick-tick")
+      setTarget(defaultTimer);
+  }, [defaultTimer]);
+
+  const inSession =
+    session.status === "starting" ||
+    session.status === "running" ||
+    session.status === "paused";
+
+  const changeMode = (nextMode: SessionMode) => {
+    setMode(nextMode);
+    setTarget(
+      nextMode === "tick-tick" && defaultTimer !== undefined
+        ? defaultTimer
+        : MODE_TARGETS[nextMode][Math.min(1, MODE_TARGETS[nextMode].length - 1)]
+    );
+  };
+
+  const startSession = () => {
+    const paragraph =
+      mode === "passage"
+        ? paragraphs.find((p) => p.id === paragraphId)
+        : undefined;
+    session.start(
+      mode,
+      target,
+      buildTargetText(mode, target, paragraph),
+      paragraph?.id
+    );
+  };
+
+  const retrySameText = () =>
+    session.start(
+      session.mode,
+      session.target,
+      session.targetText,
+      session.paragraphId
+    );
+
+  // Keeps the finished session's mode and target, with fresh text
+  const startNextText = () => {
+    let paragraph: CustomParagraph | undefined;
+
+    if (session.mode === "passage" && paragraphs.length > 0) {
+      const current = paragraphs.findIndex((p) => p.id === paragraphId);
+      paragraph = paragraphs[(current + 1) % paragraphs.length];
+      setParagraphId(paragraph.id);
+    }
+
+    session.start(
+      session.mode,
+      session.target,
+      buildTargetText(session.mode, session.target, paragraph),
+      paragraph?.id
+    );
+  };
+
+  const showView = (next: View) => {
+    setView(next);
+    if (next === "history") history.refresh();
+  };
+
+  const practiceErrors = () => {
+    if (!session.result) return;
+
+    session.start(
+      "passage",
+      0,
+      buildPracticeText(
+        session.result.stats.errorPatterns,
+        session.result.session.targetText
+      )
+    );
+  };
+
   return (
     <div className="min-h-screen bg-[var(--vscode-editor-background)] text-[var(--vscode-editor-foreground)] p-4">
-      <div className="max-w-4xl mx-auto">
-        <h1 className="text-2xl font-bold text-primary mb-4">typesh</h1>
-        <div className="bg-[var(--vscode-input-background)] p-4 rounded-lg border border-[var(--vscode-input-border)]">
-          <p className="typing-text">
-            Welcome to typesh The quick brown fox jumps over the lazy dog.
-          </p>
-        </div>
-        <div className="mt-4 flex gap-4">
-          <button className="bg-primary text-black px-4 py-2 rounded hover:bg-primary/80 transition-colors">
-            Start Test
-          </button>
-          <button className="border border-[var(--vscode-button-border)] px-4 py-2 rounded hover:bg-[var(--vscode-button-hoverBackground)] transition-colors">
-            Settings
-          </button>
+      <div className="max-w-4xl mx-auto flex flex-col gap-4">
+        <div className="flex gap-4 items-center">
+          <h1 className="text-2xl font-bold text-primary">typesh</h1>
+          <div className="flex gap-1 text-sm">
+            {(["test", "history"] as const).map((option) => (
+              <button
+                key={option}
+                className={`px-2 py-1 rounded transition-colors ${
+                  view === option
+                    ? "text-primary"
+                    : "opacity-70 hover:bg-[var(--vscode-button-hoverBackground)]"
+                }`}
+                onClick={() => showView(option)}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
         </div>
+
+        {view === "history" ? (
+          <HistoryView
+            entries={history.entries}
+            total={history.total}
+            paragraphs={paragraphs}
+            loading={history.loading}
+            error={history.error}
+            onDelete={history.deleteSession}
+            onLoadMore={history.loadMore}
+            onLoadSession={history.loadSession}
+            onLoadStats={history.loadStats}
+            onLoadHeatmap={history.loadHeatmap}
+          />
+        ) : (
+          <>
+            <ModePicker
+              mode={mode}
+              target={target}
+              targets={targetsFor(mode)}
+              paragraphs={paragraphs}
+              paragraphId={paragraphId}
+              disabled={inSession}
+              onModeChange={changeMode}
+              onTargetChange={setTarget}
+              onParagraphChange={setParagraphId}
+            />
+
+            {session.error && (
+              <div className="text-incorrect text-sm">{session.error}</div>
+            )}
+
+            {session.status !== "idle" &&
+              settings?.showRealTimeStats !== false && (
+                <StatsHeader
+                  mode={session.mode}
+                  metrics={session.update?.metrics ?? null}
+                  running={session.status === "running"}
+                  receivedAt={session.updateReceivedAt}
+                />
+              )}
+
+            {session.status === "idle" ? (
+              <div className="typing-text opacity-60 p-4">
+                Pick a mode and press start, then type into the box that
+                appears.
+              </div>
+            ) : session.status === "completed" && session.result ? (
+              <ResultsView
+                session={session.result.session}
+                stats={session.result.stats}
+                onRetry={retrySameText}
+                onNext={startNextText}
+                onPracticeErrors={practiceErrors}
+              />
+            ) : (
+              <TypingSurface
+                targetText={session.targetText}
+                input={session.update?.currentInput ?? ""}
+                caretPosition={session.update?.currentPosition ?? 0}
+                active={session.status === "running"}
+                onKeystroke={session.sendKeystroke}
+              />
+            )}
+
+            <div className="flex gap-4">
+              {session.status === "idle" && (
+                <button className={primaryButton} onClick={startSession}>
+                  Start Test
+                </button>
+              )}
+              {/* Back to the mode picker from a finished session, or one that failed */}
+              {(session.status === "completed" ||
+                (session.error && session.status !== "idle")) && (
+                <button className={primaryButton} onClick={session.reset}>
+                  New Test
+                </button>
+              )}
+              {session.status === "running" && (
+                <button className={secondaryButton} onClick={session.pause}>
+                  Pause
+                </button>
+              )}
+              {session.status === "paused" && (
+                <button className={secondaryButton} onClick={session.resume}>
+                  Resume
+                </button>
+              )}
+              {(session.status === "running" ||
+                session.status === "paused") && (
+                <>
+                  <button className={secondaryButton} onClick={session.end}>
+                    End
+                  </button>
+                  <button className={secondaryButton} onClick={startSession}>
+                    Restart
+                  </button>
+                </>
+              )}
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,395 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  CustomParagraph,
+  HistoryFilters,
+  HistoryStats,
+  KeyboardLayoutName,
+  KeyHeatmap,
+  SessionMode,
+  SessionRecord,
+  SessionSummary,
+  TrendPeriod,
+} from "../types";
+import {
+  ALL_FILTERS,
+  filterHistory,
+  sessionDate,
+} from "../../../services/components/historyStats";
+import KeyboardHeatmap from "./KeyboardHeatmap";
+import LineChart from "./LineChart";
+import SessionReplay from "./SessionReplay";
+
+interface HistoryViewProps {
+  entries: SessionSummary[]; // the pages loaded so far, newest first
+  total: number;
+  paragraphs: CustomParagraph[];
+  loading: boolean;
+  error: string | null;
+  onDelete: (id: string) => void;
+  onLoadMore: () => void;
+  onLoadSession: (id: string) => Promise<SessionRecord>;
+  onLoadStats: (
+    filters: HistoryFilters,
+    period: TrendPeriod
+  ) => Promise<HistoryStats>;
+  onLoadHeatmap: (
+    ids: string[],
+    layout: KeyboardLayoutName
+  ) => Promise<KeyHeatmap>;
+}
+
+const MODE_LABELS: Record<SessionMode, string> = {
+  "tick-tick": "time",
+  words: "words",
+  passage: "passage",
+};
+
+const inputClass =
+  "bg-[var(--vscode-input-background)] text-[var(--vscode-input-foreground)] border border-[var(--vscode-input-border)] rounded px-2 py-1";
+
+const optionClass = (selected: boolean) =>
+  `px-2 py-1 rounded transition-colors ${
+    selected
+      ? "text-primary"
+      : "opacity-70 hover:bg-[var(--vscode-button-hoverBackground)]"
+  }`;
+
+function HistoryView({
+  entries,
+  total,
+  paragraphs,
+  loading,
+  error,
+  onDelete,
+  onLoadMore,
+  onLoadSession,
+  onLoadStats,
+  onLoadHeatmap,
+}: HistoryViewProps) {
+  const [filters, setFilters] = useState<HistoryFilters>(ALL_FILTERS);
+  const [period, setPeriod] = useState<TrendPeriod>("day");
+  // Deleting takes two clicks, confirm() is not available inside webviews
+  const [pendingDelete, setPendingDelete] = useState<string | null>(null);
+  const [replaying, setReplaying] = useState<SessionSummary | null>(null);
+  const [replay, setReplay] = useState<SessionRecord | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [stats, setStats] = useState<HistoryStats | null>(null);
+  const [statsError, setStatsError] = useState<string | null>(null);
+
+  // Fetched again when a session is saved or deleted, which changes the total
+  useEffect(() => {
+    let current = true;
+    onLoadStats(filters, period)
+      .then((next) => {
+        if (!current) return;
+        setStats(next);
+        setStatsError(null);
+      })
+      .catch((reason) => current && setStatsError((reason as Error).message));
+
+    return () => {
+      current = false;
+    };
+  }, [filters, period, total, onLoadStats]);
+
+  // Summaries carry no keystrokes, the full record is fetched for the replay alone
+  useEffect(() => {
+    setReplay(null);
+    setReplayError(null);
+    if (!replaying) return;
+
+    let current = true;
+    onLoadSession(replaying.session.id)
+      .then((record) => current && setReplay(record))
+      .catch((reason) => current && setReplayError((reason as Error).message));
+
+    return () => {
+      current = false;
+    };
+  }, [replaying, onLoadSession]);
+
+  // The list holds the loaded pages, trends and bests cover every session
+  const filtered = useMemo(
+    () => filterHistory(entries, filters),
+    [entries, filters]
+  );
+  const newestFirst = useMemo(
+    () =>
+      [...filtered].sort(
+        (a, b) => sessionDate(b).getTime() - sessionDate(a).getTime()
+      ),
+    [filtered]
+  );
+
+  const titles = useMemo(
+    () => new Map(paragraphs.map((p) => [p.id, p.title])),
+    [paragraphs]
+  );
+
+  const describeTarget = (entry: {
+    mode: SessionMode | null;
+    target: number;
+    paragraphId?: string;
+  }) => {
+    switch (entry.mode) {
+      case "tick-tick":
+        return `time ${entry.target}s`;
+      case "words":
+        return `${entry.target} words`;
+      case "passage":
+        return titles.get(entry.paragraphId ?? "") ?? "passage";
+      default:
+        return "unknown mode";
+    }
+  };
+
+  const updateFilters = (changes: Partial<HistoryFilters>) =>
+    setFilters((prev) => ({ ...prev, ...changes }));
+
+  const deleteEntry = (id: string) => {
+    if (pendingDelete !== id) return setPendingDelete(id);
+
+    setPendingDelete(null);
+    if (replaying?.session.id === id) setReplaying(null);
+    onDelete(id);
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-wrap gap-4 items-center text-sm">
+        <div className="flex gap-1">
+          {(["all", ...Object.keys(MODE_LABELS)] as const).map((option) => (
+            <button
+              key={option}
+              className={optionClass(filters.mode === option)}
+              onClick={() =>
+                updateFilters({ mode: option as HistoryFilters["mode"] })
+              }
+            >
+              {option === "all" ? "all" : MODE_LABELS[option as SessionMode]}
+            </button>
+          ))}
+        </div>
+
+        <select
+          className={inputClass}
+          value={filters.category}
+          onChange={(event) => updateFilters({ category: event.target.value })}
+        >
+          <option value="all">all categories</option>
+          {(stats?.categories ?? []).map((category) => (
+            <option key={category} value={category}>
+              {category}
+            </option>
+          ))}
+        </select>
+
+        <label className="flex gap-2 items-center">
+          from
+          <input
+            type="date"
+            className={inputClass}
+            value={filters.from}
+            onChange={(event) => updateFilters({ from: event.target.value })}
+          />
+        </label>
+        <label className="flex gap-2 items-center">
+          to
+          <input
+            type="date"
+            className={inputClass}
+            value={filters.to}
+            onChange={(event) => updateFilters({ to: event.target.value })}
+          />
+        </label>
+      </div>
+
+      {error && <div className="text-incorrect text-sm">{error}</div>}
+      {statsError && <div className="text-incorrect text-sm">{statsError}</div>}
+
+      {(loading && entries.length === 0) || !stats ? (
+        <div className="text-sm opacity-60">Loading history…</div>
+      ) : stats.sessions === 0 ? (
+        <div className="text-sm opacity-60">
+          {total === 0
+            ? "No sessions yet. Finish a test to start your history."
+            : "No sessions match these filters."}
+        </div>
+      ) : (
+        <>
+          <section className="flex flex-col gap-2">
+            <div className="flex gap-4 items-center">
+              <h2 className="font-bold">Trend</h2>
+              <div className="flex gap-1 text-sm">
+                {(["day", "week"] as const).map((option) => (
+                  <button
+                    key={option}
+                    className={optionClass(period === option)}
+                    onClick={() => setPeriod(option)}
+                  >
+                    by {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <LineChart
+              series={[
+                {
+                  label: "avg wpm",
+                  values: stats.trend.map((p) => p.wpm),
+                  className: "stroke-primary",
+                  legendClassName: "text-primary",
+                },
+              ]}
+              xLabel={`${stats.trend.length} ${period}s`}
+            />
+            <LineChart
+              series={[
+                {
+                  label: "avg accuracy %",
+                  values: stats.trend.map((p) => p.accuracy),
+                  className: "stroke-pending",
+                  legendClassName: "text-pending",
+                },
+              ]}
+              height={120}
+            />
+          </section>
+
+          <section className="flex flex-col gap-2">
+            <h2 className="font-bold">Personal bests</h2>
+            <table className="text-sm text-left">
+              <thead className="opacity-60">
+                <tr>
+                  <th className="font-normal pr-4">test</th>
+                  <th className="font-normal pr-4">wpm</th>
+                  <th className="font-normal pr-4">accuracy</th>
+                  <th className="font-normal">date</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.bests.map((best) => (
+                  <tr key={best.key}>
+                    <td className="pr-4">{describeTarget(best)}</td>
+                    <td className="pr-4 text-primary font-bold">
+                      {best.entry.stats.wpm}
+                    </td>
+                    <td className="pr-4">{best.entry.stats.accuracy}%</td>
+                    <td>{sessionDate(best.entry).toLocaleDateString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <KeyboardHeatmap
+            sessionIds={stats.heatmapIds}
+            onLoad={onLoadHeatmap}
+          />
+
+          {replaying && (
+            <section className="flex flex-col gap-2">
+              <div className="flex gap-4 items-center">
+                <h2 className="font-bold">
+                  Replay{" "}
+                  <span className="font-normal text-sm opacity-70">
+                    {describeTarget(replaying)},{" "}
+                    {sessionDate(replaying).toLocaleString()}
+                  </span>
+                </h2>
+                <button
+                  className={`text-sm ${optionClass(false)}`}
+                  onClick={() => setReplaying(null)}
+                >
+                  close
+                </button>
+              </div>
+              {replay ? (
+                <SessionReplay session={replay.session} />
+              ) : replayError ? (
+                <div className="text-incorrect text-sm">{replayError}</div>
+              ) : (
+                <div className="text-sm opacity-60">Loading replay…</div>
+              )}
+            </section>
+          )}
+
+          <section className="flex flex-col gap-2">
+            <h2 className="font-bold">
+              Sessions{" "}
+              <span className="font-normal text-sm opacity-70">
+                {stats.sessions}
+              </span>
+            </h2>
+            <table className="text-sm text-left">
+              <thead className="opacity-60">
+                <tr>
+                  <th className="font-normal pr-4">date</th>
+                  <th className="font-normal pr-4">test</th>
+                  <th className="font-normal pr-4">wpm</th>
+                  <th className="font-normal pr-4">accuracy</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {newestFirst.map((entry) => (
+                  <tr key={entry.session.id}>
+                    <td className="pr-4">
+                      {sessionDate(entry).toLocaleString()}
+                    </td>
+                    <td className="pr-4">{describeTarget(entry)}</td>
+                    <td className="pr-4">{entry.stats.wpm}</td>
+                    <td className="pr-4">{entry.stats.accuracy}%</td>
+                    <td>
+                      {/* Synced sessions have no keystrokes to replay */}
+                      {!entry.summaryOnly && (
+                        <button
+                          className={`px-2 rounded hover:bg-[var(--vscode-button-hoverBackground)] ${
+                            replaying?.session.id === entry.session.id
+                              ? "text-primary"
+                              : "opacity-60"
+                          }`}
+                          onClick={() => setReplaying(entry)}
+                        >
+                          replay
+                        </button>
+                      )}
+                      <button
+                        className={`px-2 rounded hover:bg-[var(--vscode-button-hoverBackground)] ${
+                          pendingDelete === entry.session.id
+                            ? "text-incorrect"
+                            : "opacity-60"
+                        }`}
+                        onClick={() => deleteEntry(entry.session.id)}
+                        onBlur={() => setPendingDelete(null)}
+                      >
+                        {pendingDelete === entry.session.id
+                          ? "confirm"
+                          : "delete"}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        </>
+      )}
+
+      {/* Older pages only add rows to the list, the aggregates already cover them */}
+      {entries.length < total && (
+        <button
+          className={`self-start text-sm ${optionClass(false)}`}
+          onClick={onLoadMore}
+          disabled={loading}
+        >
+          {loading
+            ? "loading…"
+            : `load older sessions (${entries.length} of ${total})`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default HistoryView;
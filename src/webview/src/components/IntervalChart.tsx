@@ -0,0 +1,46 @@
+import { IntervalPoint } from "../lib/sessionSeries";
+
+interface IntervalChartProps {
+  points: IntervalPoint[];
+  height?: number;
+}
+
+const WIDTH = 600;
+
+const describeKey = (key: string) =>
+  key === " " ? "space" : key === "\b" ? "backspace" : key;
+
+function IntervalChart({ points, height = 120 }: IntervalChartProps) {
+  if (points.length === 0)
+    return <div className="text-sm opacity-60">No keystrokes recorded.</div>;
+
+  const max = Math.max(1, ...points.map((p) => p.interval));
+  const barWidth = WIDTH / points.length;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" role="img">
+      {points.map((point, i) => {
+        const barHeight = (point.interval / max) * (height - 4);
+        return (
+          <rect
+            key={point.index}
+            x={i * barWidth}
+            y={height - barHeight}
+            width={Math.max(1, barWidth - 1)}
+            height={barHeight}
+            className={point.isSpike ? "fill-incorrect" : "fill-primary"}
+            opacity={point.isSpike ? 1 : 0.6}
+          >
+            <title>
+              {`${describeKey(point.key)}: ${point.interval}ms${
+                point.isSpike ? " (spike)" : ""
+              }`}
+            </title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default IntervalChart;
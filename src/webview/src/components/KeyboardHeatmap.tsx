@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { KEYBOARD_LAYOUTS } from "../../../services/components/keyboardLayouts";
+import { KeyboardLayoutName, KeyHeat, KeyHeatmap } from "../types";
+
+interface KeyboardHeatmapProps {
+  sessionIds: string[];
+  // Built by the extension, the keystrokes behind it are not sent to the webview
+  onLoad: (ids: string[], layout: KeyboardLayoutName) => Promise<KeyHeatmap>;
+}
+
+type HeatMetric = "errors" | "latency";
+
+// Row offsets of a staggered keyboard, in key widths
+const ROW_OFFSETS = [0, 0.5, 0.75, 1.25, 3.5];
+const KEY_SIZE = 2; // rem
+
+// Heat colors: incorrect red for errors, primary blue for latency
+const HEAT_COLORS: Record<HeatMetric, string> = {
+  errors: "239, 68, 68",
+  latency: "0, 122, 204",
+};
+
+const optionClass = (selected: boolean) =>
+  `px-2 py-1 rounded transition-colors ${
+    selected
+      ? "text-primary"
+      : "opacity-70 hover:bg-[var(--vscode-button-hoverBackground)]"
+  }`;
+
+const heatValue = (heat: KeyHeat, metric: HeatMetric) =>
+  metric === "errors" ? heat.errorRate : heat.averageLatency ?? 0;
+
+const describeHeat = (heat: KeyHeat) =>
+  heat.typed === 0
+    ? "not typed"
+    : `${heat.typed} typed, ${heat.errorRate}% errors` +
+      (heat.averageLatency === null ? "" : `, ${heat.averageLatency}ms`);
+
+function KeyboardHeatmap({ sessionIds, onLoad }: KeyboardHeatmapProps) {
+  const [layout, setLayout] = useState<KeyboardLayoutName>("qwerty");
+  const [metric, setMetric] = useState<HeatMetric>("errors");
+  const [heatmap, setHeatmap] = useState<KeyHeatmap | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // A reply for sessions or a layout no longer shown is dropped
+    let current = true;
+    setError(null);
+
+    onLoad(sessionIds, layout)
+      .then((next) => current && setHeatmap(next))
+      .catch((reason) => current && setError((reason as Error).message));
+
+    return () => {
+      current = false;
+    };
+  }, [sessionIds, layout, onLoad]);
+
+  const sessions = heatmap?.sessions ?? 0;
+  const keys = heatmap?.keys ?? [];
+  const max = Math.max(1, ...keys.map((heat) => heatValue(heat, metric)));
+  // Keys arrive as copies, so they are grouped by their row number
+  const rows = ROW_OFFSETS.map((_, row) =>
+    keys.filter((heat) => heat.key.row === row)
+  );
+
+  return (
+    <section className="flex flex-col gap-2">
+      <div className="flex flex-wrap gap-4 items-center">
+        <h2 className="font-bold">
+          Keyboard{" "}
+          <span className="font-normal text-sm opacity-70">
+            {sessions} {sessions === 1 ? "session" : "sessions"}
+          </span>
+        </h2>
+        <div className="flex gap-1 text-sm">
+          {(["errors", "latency"] as const).map((option) => (
+            <button
+              key={option}
+              className={optionClass(metric === option)}
+              onClick={() => setMetric(option)}
+            >
+              {option === "errors" ? "error rate" : "latency"}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1 text-sm">
+          {Object.values(KEYBOARD_LAYOUTS).map((option) => (
+            <button
+              key={option.name}
+              className={optionClass(layout === option.name)}
+              onClick={() => setLayout(option.name)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="text-incorrect text-sm">{error}</div>
+      ) : !heatmap ? (
+        <div className="text-sm opacity-60">Loading keyboard…</div>
+      ) : heatmap.sessions === 0 ? (
+        <div className="text-sm opacity-60">
+          No keystrokes in these sessions. Synced sessions keep stats only.
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-col gap-1 font-mono text-sm">
+            {rows.map((row, i) => (
+              <div
+                key={i}
+                className="flex gap-1"
+                style={{ marginLeft: `${ROW_OFFSETS[i] * KEY_SIZE}rem` }}
+              >
+                {row.map((heat) => (
+                  <div
+                    key={heat.key.base}
+                    className="flex items-center justify-center rounded border border-[var(--vscode-input-border)]"
+                    style={{
+                      width: `${(heat.key.base === " " ? 6 : 1) * KEY_SIZE}rem`,
+                      height: `${KEY_SIZE}rem`,
+                      backgroundColor: `rgba(${HEAT_COLORS[metric]}, ${
+                        heatValue(heat, metric) / max
+                      })`,
+                      opacity: heat.typed === 0 ? 0.4 : 1,
+                    }}
+                    title={describeHeat(heat)}
+                  >
+                    {heat.key.base === " " ? "space" : heat.key.base}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <table className="text-sm text-left">
+            <thead className="opacity-60">
+              <tr>
+                <th className="font-normal pr-4">finger</th>
+                <th className="font-normal pr-4">typed</th>
+                <th className="font-normal pr-4">error rate</th>
+                <th className="font-normal">average latency</th>
+              </tr>
+            </thead>
+            <tbody>
+              {heatmap.fingers.map((finger) => (
+                <tr key={`${finger.hand}-${finger.finger}`}>
+                  <td className="pr-4">
+                    {finger.hand === "both"
+                      ? "thumbs"
+                      : `${finger.hand} ${finger.finger}`}
+                  </td>
+                  <td className="pr-4">{finger.typed}</td>
+                  <td
+                    className={`pr-4 ${
+                      finger.errors > 0 ? "text-incorrect" : ""
+                    }`}
+                  >
+                    {finger.errorRate}%
+                  </td>
+                  <td>
+                    {finger.averageLatency === null
+                      ? "-"
+                      : `${finger.averageLatency}ms`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </section>
+  );
+}
+
+export default KeyboardHeatmap;
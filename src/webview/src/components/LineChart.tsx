@@ -0,0 +1,69 @@
+interface LineSeries {
+  label: string;
+  values: number[];
+  className: string; // stroke color utility
+  legendClassName: string; // matching text color utility
+}
+
+interface LineChartProps {
+  series: LineSeries[];
+  height?: number;
+  xLabel?: string;
+}
+
+const WIDTH = 600;
+const PADDING = 24;
+
+// Minimal SVG line chart, enough for a few series without a charting dependency
+function LineChart({ series, height = 160, xLabel }: LineChartProps) {
+  const length = Math.max(0, ...series.map((s) => s.values.length));
+  const max = Math.max(1, ...series.flatMap((s) => s.values));
+
+  if (length < 2)
+    return <div className="text-sm opacity-60">Not enough data to plot.</div>;
+
+  const x = (i: number) => PADDING + (i / (length - 1)) * (WIDTH - 2 * PADDING);
+  const y = (v: number) =>
+    height - PADDING - (v / max) * (height - 2 * PADDING);
+
+  return (
+    <div className="flex flex-col gap-1">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full"
+        role="img"
+        aria-label={series.map((s) => s.label).join(", ")}
+      >
+        <line
+          x1={PADDING}
+          x2={WIDTH - PADDING}
+          y1={height - PADDING}
+          y2={height - PADDING}
+          className="stroke-current opacity-30"
+        />
+        <text x={2} y={PADDING} className="fill-current text-[10px] opacity-60">
+          {Math.round(max)}
+        </text>
+        {series.map((s) => (
+          <polyline
+            key={s.label}
+            fill="none"
+            strokeWidth={2}
+            className={s.className}
+            points={s.values.map((v, i) => `${x(i)},${y(v)}`).join(" ")}
+          />
+        ))}
+      </svg>
+      <div className="flex gap-4 text-xs opacity-70">
+        {series.map((s) => (
+          <span key={s.label} className={s.legendClassName}>
+            ― {s.label}
+          </span>
+        ))}
+        {xLabel && <span className="ml-auto">{xLabel}</span>}
+      </div>
+    </div>
+  );
+}
+
+export default LineChart;
@@ -0,0 +1,85 @@
+import { CustomParagraph, SessionMode } from "../types";
+
+interface ModePickerProps {
+  mode: SessionMode;
+  target: number;
+  targets: number[]; // choices for the current mode
+  paragraphs: CustomParagraph[];
+  paragraphId: string | null;
+  disabled: boolean;
+  onModeChange: (mode: SessionMode) => void;
+  onTargetChange: (target: number) => void;
+  onParagraphChange: (id: string) => void;
+}
+
+const MODE_LABELS: Record<SessionMode, string> = {
+  "tick-tick": "time",
+  words: "words",
+  passage: "passage",
+};
+
+const optionClass = (selected: boolean) =>
+  `px-2 py-1 rounded transition-colors disabled:opacity-50 ${
+    selected
+      ? "text-primary"
+      : "opacity-70 hover:bg-[var(--vscode-button-hoverBackground)]"
+  }`;
+
+function ModePicker({
+  mode,
+  target,
+  targets,
+  paragraphs,
+  paragraphId,
+  disabled,
+  onModeChange,
+  onTargetChange,
+  onParagraphChange,
+}: ModePickerProps) {
+  return (
+    <div className="flex flex-wrap gap-4 items-center text-sm">
+      <div className="flex gap-1">
+        {(Object.keys(MODE_LABELS) as SessionMode[]).map((option) => (
+          <button
+            key={option}
+            className={optionClass(option === mode)}
+            disabled={disabled}
+            onClick={() => onModeChange(option)}
+          >
+            {MODE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {mode === "passage" ? (
+        <select
+          className="bg-[var(--vscode-dropdown-background)] text-[var(--vscode-dropdown-foreground)] border border-[var(--vscode-dropdown-border)] rounded px-2 py-1"
+          value={paragraphId ?? ""}
+          disabled={disabled || paragraphs.length === 0}
+          onChange={(event) => onParagraphChange(event.target.value)}
+        >
+          {paragraphs.map((paragraph) => (
+            <option key={paragraph.id} value={paragraph.id}>
+              {paragraph.title}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <div className="flex gap-1">
+          {targets.map((option) => (
+            <button
+              key={option}
+              className={optionClass(option === target)}
+              disabled={disabled}
+              onClick={() => onTargetChange(option)}
+            >
+              {mode === "tick-tick" ? `${option}s` : option}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ModePicker;
@@ -0,0 +1,375 @@
+import { useMemo, useState } from "react";
+import { TypingAnalyzer } from "../../../services/TypingAnalyzer";
+import { PatternRanking, TypingSession, TypingStats } from "../types";
+import { computeIntervalSeries, computeWpmSeries } from "../lib/sessionSeries";
+import IntervalChart from "./IntervalChart";
+import LineChart from "./LineChart";
+import SessionReplay from "./SessionReplay";
+
+interface ResultsViewProps {
+  session: TypingSession;
+  stats: TypingStats;
+  onRetry: () => void;
+  onNext: () => void;
+  onPracticeErrors: () => void;
+}
+
+const TOP_ERROR_PATTERNS = 5;
+const TOP_SLOW_SEQUENCES = 5;
+const TOP_WORD_ERRORS = 5;
+
+type ErrorView = "uncorrected" | "all";
+
+const PATTERN_RANKINGS: Record<PatternRanking, string> = {
+  frequency: "most often",
+  corrected: "most corrected",
+  timeToFix: "slowest to fix",
+};
+
+const optionClass = (selected: boolean) =>
+  `px-2 py-1 rounded transition-colors ${
+    selected
+      ? "text-primary"
+      : "opacity-70 hover:bg-[var(--vscode-button-hoverBackground)]"
+  }`;
+
+const describeChar = (char: string) =>
+  char === "" ? "(missing)" : char === " " ? "space" : char;
+
+// Spaces inside a bigram or trigram would be invisible
+const describeSequence = (sequence: string) =>
+  sequence.length === 1 ? describeChar(sequence) : sequence.replace(/ /g, "␣");
+
+function ResultsView({
+  session,
+  stats,
+  onRetry,
+  onNext,
+  onPracticeErrors,
+}: ResultsViewProps) {
+  const wpmSeries = useMemo(() => computeWpmSeries(session), [session]);
+  const intervalSeries = useMemo(
+    () => computeIntervalSeries(session.keystrokes),
+    [session]
+  );
+
+  const spikes = intervalSeries.filter((p) => p.isSpike).length;
+  const [errorView, setErrorView] = useState<ErrorView>("uncorrected");
+  const [ranking, setRanking] = useState<PatternRanking>("frequency");
+  const [showAllErrors, setShowAllErrors] = useState(false);
+  const [showAllWords, setShowAllWords] = useState(false);
+
+  // Only wrong keypresses know how they were corrected
+  const errorPatterns = useMemo(
+    () =>
+      errorView === "all"
+        ? TypingAnalyzer.rankErrorPatterns(stats.allErrorPatterns, {
+            rankBy: ranking,
+          })
+        : stats.errorPatterns,
+    [stats, errorView, ranking]
+  );
+  const topErrors = showAllErrors
+    ? errorPatterns
+    : errorPatterns.slice(0, TOP_ERROR_PATTERNS);
+  const topWords = showAllWords
+    ? stats.wordErrors
+    : stats.wordErrors.slice(0, TOP_WORD_ERRORS);
+  const slowest = stats.latency.slowest.slice(0, TOP_SLOW_SEQUENCES);
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-4">
+        <Metric label="wpm" value={stats.wpm} primary />
+        <Metric label="gross wpm" value={stats.grossWPM} />
+        <Metric label="words wpm" value={stats.wordsWPM} />
+        <Metric label="accuracy" value={`${stats.accuracy}%`} primary />
+        <Metric label="consistency" value={`${stats.consistencyScore}%`} />
+      </div>
+
+      <div className="grid grid-cols-3 sm:grid-cols-6 gap-4 text-sm">
+        <Metric label="correct" value={stats.characterStats.correct} small />
+        <Metric
+          label="incorrect"
+          value={stats.characterStats.incorrect}
+          small
+        />
+        <Metric label="extra" value={stats.characterStats.extra} small />
+        <Metric label="missed" value={stats.characterStats.missed} small />
+        <Metric label="corrected" value={stats.correctedErrors} small />
+        <Metric label="errors" value={stats.errorCount} small />
+      </div>
+
+      <section className="flex flex-col gap-2">
+        <h2 className="font-bold">WPM over time</h2>
+        <LineChart
+          series={[
+            {
+              label: "wpm",
+              values: wpmSeries.map((p) => p.wpm),
+              className: "stroke-primary",
+              legendClassName: "text-primary",
+            },
+            {
+              label: "raw",
+              values: wpmSeries.map((p) => p.rawWpm),
+              className: "stroke-pending",
+              legendClassName: "text-pending",
+            },
+          ]}
+          xLabel={`${wpmSeries.length}s`}
+        />
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <h2 className="font-bold">Replay</h2>
+        <SessionReplay session={session} />
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <h2 className="font-bold">
+          Keystroke intervals{" "}
+          <span className="font-normal text-sm opacity-70">
+            {spikes} {spikes === 1 ? "spike" : "spikes"}
+          </span>
+        </h2>
+        <IntervalChart points={intervalSeries} />
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <div className="flex gap-4 items-center">
+          <h2 className="font-bold">Most missed characters</h2>
+          <div className="flex gap-1 text-sm">
+            {(["uncorrected", "all"] as const).map((option) => (
+              <button
+                key={option}
+                className={optionClass(errorView === option)}
+                onClick={() => setErrorView(option)}
+              >
+                {option === "all" ? "all keypresses" : "left in text"}
+              </button>
+            ))}
+          </div>
+          {errorView === "all" && (
+            <select
+              className="bg-[var(--vscode-input-background)] text-[var(--vscode-input-foreground)] border border-[var(--vscode-input-border)] rounded px-2 py-1 text-sm"
+              value={ranking}
+              onChange={(event) =>
+                setRanking(event.target.value as PatternRanking)
+              }
+            >
+              {Object.entries(PATTERN_RANKINGS).map(([option, label]) => (
+                <option key={option} value={option}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          )}
+          <ShowAllToggle
+            total={errorPatterns.length}
+            limit={TOP_ERROR_PATTERNS}
+            showAll={showAllErrors}
+            onToggle={() => setShowAllErrors((prev) => !prev)}
+          />
+        </div>
+        {topErrors.length === 0 ? (
+          <div className="text-sm opacity-60">
+            {errorView === "all"
+              ? "No wrong keypresses."
+              : "No errors left in the text."}
+          </div>
+        ) : (
+          <table className="text-sm text-left">
+            <thead className="opacity-60">
+              <tr>
+                <th className="font-normal pr-4">expected</th>
+                <th className="font-normal pr-4">times</th>
+                {errorView === "all" && (
+                  <>
+                    <th className="font-normal pr-4">corrected</th>
+                    <th className="font-normal pr-4">fixed after</th>
+                  </>
+                )}
+                <th className="font-normal">typed instead</th>
+              </tr>
+            </thead>
+            <tbody>
+              {topErrors.map((pattern) => (
+                <tr key={pattern.character}>
+                  <td className="pr-4 text-primary">
+                    {describeChar(pattern.character)}
+                  </td>
+                  <td className="pr-4">{pattern.frequency}</td>
+                  {errorView === "all" && (
+                    <>
+                      <td className="pr-4">{pattern.corrected ?? 0}</td>
+                      <td className="pr-4">
+                        {pattern.averageTimeToFix === undefined
+                          ? "-"
+                          : `${pattern.averageTimeToFix}ms`}
+                      </td>
+                    </>
+                  )}
+                  <td className="text-incorrect">
+                    {pattern.commonMistakes
+                      .map((m) =>
+                        m === "_DELETED_" ? "(skipped)" : describeChar(m)
+                      )
+                      .join(", ")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <div className="flex gap-4 items-center">
+          <h2 className="font-bold">Problem words</h2>
+          <ShowAllToggle
+            total={stats.wordErrors.length}
+            limit={TOP_WORD_ERRORS}
+            showAll={showAllWords}
+            onToggle={() => setShowAllWords((prev) => !prev)}
+          />
+        </div>
+        {topWords.length === 0 ? (
+          <div className="text-sm opacity-60">Every word typed right.</div>
+        ) : (
+          <table className="text-sm text-left">
+            <thead className="opacity-60">
+              <tr>
+                <th className="font-normal pr-4">word</th>
+                <th className="font-normal pr-4">wrong</th>
+                <th className="font-normal pr-4">corrected</th>
+                <th className="font-normal pr-4">time</th>
+                <th className="font-normal">typed instead</th>
+              </tr>
+            </thead>
+            <tbody>
+              {topWords.map((word) => (
+                <tr key={word.word}>
+                  <td className="pr-4 text-primary">{word.word}</td>
+                  <td className="pr-4">{word.errors}</td>
+                  <td className="pr-4">{word.corrected}</td>
+                  <td className="pr-4">
+                    {word.averageDuration === null
+                      ? "-"
+                      : `${word.averageDuration}ms`}
+                  </td>
+                  <td className="text-incorrect whitespace-pre">
+                    {word.typedInstead.join(", ")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <h2 className="font-bold">Slowest sequences</h2>
+        {slowest.length === 0 ? (
+          <div className="text-sm opacity-60">
+            Not enough keystrokes to time.
+          </div>
+        ) : (
+          <table className="text-sm text-left">
+            <thead className="opacity-60">
+              <tr>
+                <th className="font-normal pr-4">sequence</th>
+                <th className="font-normal pr-4">median</th>
+                <th className="font-normal pr-4">average</th>
+                <th className="font-normal">errors</th>
+              </tr>
+            </thead>
+            <tbody>
+              {slowest.map((stat) => (
+                <tr key={stat.sequence}>
+                  <td className="pr-4 text-primary whitespace-pre">
+                    {describeSequence(stat.sequence)}
+                  </td>
+                  <td className="pr-4">{stat.medianLatency}ms</td>
+                  <td className="pr-4">{stat.averageLatency}ms</td>
+                  <td className={stat.errors > 0 ? "text-incorrect" : ""}>
+                    {stat.errors}/{stat.count}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <div className="flex gap-4">
+        <button
+          className="bg-primary text-black px-4 py-2 rounded hover:bg-primary/80 transition-colors"
+          onClick={onNext}
+        >
+          Next Text
+        </button>
+        <button
+          className="border border-[var(--vscode-button-border)] px-4 py-2 rounded hover:bg-[var(--vscode-button-hoverBackground)] transition-colors"
+          onClick={onRetry}
+        >
+          Retry Same Text
+        </button>
+        <button
+          className="border border-[var(--vscode-button-border)] px-4 py-2 rounded hover:bg-[var(--vscode-button-hoverBackground)] transition-colors disabled:opacity-50"
+          disabled={stats.errorPatterns.length === 0}
+          onClick={onPracticeErrors}
+        >
+          Practice My Errors
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ShowAllToggle({
+  total,
+  limit,
+  showAll,
+  onToggle,
+}: {
+  total: number;
+  limit: number;
+  showAll: boolean;
+  onToggle: () => void;
+}) {
+  if (total <= limit) return null;
+
+  return (
+    <button className={`text-sm ${optionClass(false)}`} onClick={onToggle}>
+      {showAll ? `top ${limit}` : `show all ${total}`}
+    </button>
+  );
+}
+
+function Metric({
+  label,
+  value,
+  primary = false,
+  small = false,
+}: {
+  label: string;
+  value: number | string;
+  primary?: boolean;
+  small?: boolean;
+}) {
+  return (
+    <div className="flex flex-col">
+      <span
+        className={`font-bold ${small ? "text-lg" : "text-3xl"} ${
+          primary ? "text-primary" : ""
+        }`}
+      >
+        {value}
+      </span>
+      <span className="opacity-60">{label}</span>
+    </div>
+  );
+}
+
+export default ResultsView;
@@ -0,0 +1,150 @@
+import { useEffect, useMemo, useState } from "react";
+import { REPLAY_SPEEDS, ReplayPlayer } from "../../../services/ReplayPlayer";
+import { CharacterState, getCharacterStates } from "../lib/characterStates";
+import { ReplayFrame, TypingSession } from "../types";
+
+interface SessionReplayProps {
+  session: TypingSession;
+}
+
+const STATE_CLASSES: Record<CharacterState, string> = {
+  correct: "char-correct",
+  incorrect: "char-incorrect",
+  pending: "text-missed",
+  extra: "char-extra",
+};
+
+const optionClass = (selected: boolean) =>
+  `px-2 py-1 rounded transition-colors ${
+    selected
+      ? "text-primary"
+      : "opacity-70 hover:bg-[var(--vscode-button-hoverBackground)]"
+  }`;
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+function SessionReplay({ session }: SessionReplayProps) {
+  const player = useMemo(() => new ReplayPlayer(session), [session]);
+  const [frame, setFrame] = useState<ReplayFrame>(() => player.getFrame());
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(player.getSpeed());
+
+  useEffect(() => {
+    setFrame(player.getFrame());
+    setPlaying(false);
+    setSpeed(player.getSpeed());
+
+    player.onFrameUpdate((next) => {
+      setFrame(next);
+      setPlaying(player.isPlaying());
+    });
+    return () => player.dispose();
+  }, [player]);
+
+  const characters = useMemo(
+    () => getCharacterStates(session.targetText, frame.input),
+    [session, frame.input]
+  );
+  const corrected = useMemo(
+    () => new Set(frame.correctedPositions),
+    [frame.correctedPositions]
+  );
+
+  const changeSpeed = (next: number) => {
+    player.setSpeed(next);
+    setSpeed(next);
+  };
+
+  if (session.keystrokes.length === 0)
+    return (
+      <div className="text-sm opacity-60">
+        No keystrokes recorded for this session.
+      </div>
+    );
+
+  const caretPosition = frame.input.length;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap gap-4 items-center text-sm">
+        <button
+          className={optionClass(true)}
+          onClick={() => (playing ? player.pause() : player.play())}
+        >
+          {playing ? "pause" : "play"}
+        </button>
+        <div className="flex gap-1">
+          {REPLAY_SPEEDS.map((option) => (
+            <button
+              key={option}
+              className={optionClass(speed === option)}
+              onClick={() => changeSpeed(option)}
+            >
+              {option}x
+            </button>
+          ))}
+        </div>
+        <span className="opacity-70">
+          {formatTime(frame.time)} / {formatTime(player.getDuration())}
+        </span>
+      </div>
+
+      <input
+        type="range"
+        className="w-full"
+        min={0}
+        max={player.getDuration()}
+        step={10}
+        value={frame.time}
+        onChange={(event) => player.seek(Number(event.target.value))}
+      />
+
+      <div className="flex gap-6 text-sm">
+        <span>
+          <span className="font-bold text-primary">{frame.stats.wpm}</span> wpm
+        </span>
+        <span>
+          <span className="font-bold">{frame.stats.burstWpm}</span> burst
+        </span>
+        <span>
+          <span className="font-bold">{frame.stats.rawWpm}</span> raw
+        </span>
+        <span>
+          <span className="font-bold">{Math.round(frame.stats.accuracy)}%</span>{" "}
+          accuracy
+        </span>
+        <span>
+          <span
+            className={`font-bold ${
+              frame.stats.errors > 0 ? "text-incorrect" : ""
+            }`}
+          >
+            {frame.stats.errors}
+          </span>{" "}
+          errors
+        </span>
+      </div>
+
+      <div className="typing-text whitespace-pre-wrap break-words bg-[var(--vscode-input-background)] p-4 rounded-lg border border-[var(--vscode-input-border)]">
+        {characters.map((character, index) => (
+          <span
+            key={index}
+            className={`${STATE_CLASSES[character.state]} ${
+              index === caretPosition ? "typing-cursor" : ""
+            } ${
+              // Fixed mistakes stay underlined, so stumbles remain visible
+              corrected.has(index) ? "underline decoration-incorrect" : ""
+            }`}
+          >
+            {character.char}
+          </span>
+        ))}
+        {caretPosition >= characters.length && (
+          <span className="typing-cursor">&#8203;</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SessionReplay;
@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+import { LiveSessionMetrics, SessionMode } from "../types";
+
+interface StatsHeaderProps {
+  mode: SessionMode;
+  metrics: LiveSessionMetrics | null;
+  running: boolean;
+  receivedAt: number;
+}
+
+const formatSeconds = (seconds: number) => {
+  const whole = Math.max(0, Math.ceil(seconds));
+  const minutes = Math.floor(whole / 60);
+  return `${minutes}:${String(whole % 60).padStart(2, "0")}`;
+};
+
+function StatsHeader({ mode, metrics, running, receivedAt }: StatsHeaderProps) {
+  const [now, setNow] = useState(Date.now());
+
+  // Updates only arrive on keystrokes, so the clock ticks locally in between
+  useEffect(() => {
+    if (!running) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const sinceUpdate =
+    running && receivedAt > 0 ? Math.max(0, (now - receivedAt) / 1000) : 0;
+
+  const elapsed = (metrics?.elapsedTime ?? 0) + sinceUpdate;
+  const timer =
+    mode === "tick-tick"
+      ? formatSeconds((metrics?.remainingTime ?? 0) - sinceUpdate)
+      : formatSeconds(elapsed);
+
+  return (
+    <div className="flex gap-6 items-end text-sm">
+      <Stat label="wpm" value={metrics ? String(metrics.wpm) : "–"} />
+      <Stat label="burst" value={metrics ? String(metrics.burstWpm) : "–"} />
+      <Stat label="raw" value={metrics ? String(metrics.rawWpm) : "–"} />
+      <Stat
+        label="accuracy"
+        value={metrics ? `${Math.round(metrics.accuracy)}%` : "–"}
+      />
+      <Stat label="errors" value={metrics ? String(metrics.errors) : "–"} />
+      <Stat label={mode === "tick-tick" ? "left" : "time"} value={timer} />
+      <div className="flex-1 h-1 self-center bg-[var(--vscode-input-background)] rounded">
+        <div
+          className="h-1 bg-primary rounded transition-all"
+          style={{ width: `${Math.min(100, metrics?.progress ?? 0)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex flex-col">
+      <span className="text-2xl font-bold text-primary">{value}</span>
+      <span className="opacity-60">{label}</span>
+    </div>
+  );
+}
+
+export default StatsHeader;
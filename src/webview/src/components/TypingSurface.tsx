@@ -0,0 +1,96 @@
+import { useEffect, useMemo, useRef } from "react";
+import { KeystrokeCaptureService } from "../../../services/KeystrokeCaptureService";
+import { CharacterState, getCharacterStates } from "../lib/characterStates";
+
+interface TypingSurfaceProps {
+  targetText: string;
+  input: string;
+  caretPosition: number;
+  active: boolean;
+  onKeystroke: (key: string) => void;
+}
+
+const STATE_CLASSES: Record<CharacterState, string> = {
+  correct: "char-correct",
+  incorrect: "char-incorrect",
+  pending: "text-missed",
+  extra: "char-extra",
+};
+
+// Printable characters and backspace are the only keys a session understands
+const isTypingKey = (key: string) => key.length === 1 || key === "\b";
+
+function TypingSurface({
+  targetText,
+  input,
+  caretPosition,
+  active,
+  onKeystroke,
+}: TypingSurfaceProps) {
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const captureRef = useRef<KeystrokeCaptureService | null>(null);
+
+  // The capture handler is registered once, so it reads the latest callback from a ref
+  const onKeystrokeRef = useRef(onKeystroke);
+  onKeystrokeRef.current = onKeystroke;
+
+  useEffect(() => {
+    if (!surfaceRef.current) return;
+
+    const capture = new KeystrokeCaptureService({
+      element: surfaceRef.current,
+    });
+    const removeHandler = capture.addHandlers((key) => {
+      if (!isTypingKey(key)) return false;
+
+      onKeystrokeRef.current(key);
+      return true;
+    });
+    captureRef.current = capture;
+
+    return () => {
+      removeHandler();
+      capture.stopCapture();
+      captureRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const capture = captureRef.current;
+    if (!capture) return;
+
+    if (active) capture.startCapture();
+    else capture.stopCapture();
+  }, [active]);
+
+  const characters = useMemo(
+    () => getCharacterStates(targetText, input),
+    [targetText, input]
+  );
+
+  return (
+    <div
+      ref={surfaceRef}
+      className={`typing-text whitespace-pre-wrap break-words bg-[var(--vscode-input-background)] p-4 rounded-lg border border-[var(--vscode-input-border)] ${
+        active ? "" : "opacity-60"
+      }`}
+      onClick={() => surfaceRef.current?.focus()}
+    >
+      {characters.map((character, index) => (
+        <span
+          key={index}
+          className={`${STATE_CLASSES[character.state]} ${
+            index === caretPosition ? "typing-cursor" : ""
+          }`}
+        >
+          {character.char}
+        </span>
+      ))}
+      {caretPosition >= characters.length && (
+        <span className="typing-cursor">&#8203;</span>
+      )}
+    </div>
+  );
+}
+
+export default TypingSurface;
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState } from "react";
+import { useVSCodeAPI } from "./useVSCodeAPI";
+import { HISTORY_PAGE_SIZE } from "../../../shared/messageProtocol";
+import {
+  HistoryFilters,
+  KeyboardLayoutName,
+  SessionSummary,
+  TrendPeriod,
+} from "../types";
+
+interface SessionHistoryState {
+  entries: SessionSummary[];
+  total: number; // sessions in storage, entries holds the pages loaded so far
+  loading: boolean;
+  error: string | null;
+}
+
+// History lives in extension storage and arrives a page of summaries at a time.
+// A first page replaces the local copy, later pages are appended to it.
+export const useSessionHistory = () => {
+  const { request, handleMessage } = useVSCodeAPI();
+  const [state, setState] = useState<SessionHistoryState>({
+    entries: [],
+    total: 0,
+    loading: false,
+    error: null,
+  });
+
+  // Also picks up history pushed by the showHistory command
+  useEffect(
+    () =>
+      handleMessage((message) => {
+        if (message.type !== "sessionHistoryLoaded") return;
+
+        const { summaries, offset, total } = message.payload;
+        setState((prev) => {
+          // Sessions saved since the last page shift the offsets, so ids can come twice
+          const kept = offset === 0 ? [] : prev.entries;
+          const known = new Set(kept.map((entry) => entry.session.id));
+          return {
+            entries: [
+              ...kept,
+              ...summaries.filter((entry) => !known.has(entry.session.id)),
+            ],
+            total,
+            loading: false,
+            error: null,
+          };
+        });
+      }),
+    [handleMessage]
+  );
+
+  const loadPage = useCallback(
+    async (offset: number) => {
+      setState((prev) => ({ ...prev, loading: true, error: null }));
+
+      try {
+        await request("getSessionHistory", {
+          offset,
+          limit: HISTORY_PAGE_SIZE,
+        });
+      } catch (error) {
+        setState((prev) => ({
+          ...prev,
+          loading: false,
+          error: (error as Error).message,
+        }));
+      }
+    },
+    [request]
+  );
+
+  const refresh = useCallback(() => loadPage(0), [loadPage]);
+  const loadMore = useCallback(
+    () => loadPage(state.entries.length),
+    [loadPage, state.entries.length]
+  );
+
+  const deleteSession = useCallback(
+    async (id: string) => {
+      try {
+        await request("deleteSession", { id });
+        setState((prev) => ({
+          ...prev,
+          entries: prev.entries.filter((entry) => entry.session.id !== id),
+          total: Math.max(0, prev.total - 1),
+        }));
+      } catch (error) {
+        setState((prev) => ({ ...prev, error: (error as Error).message }));
+      }
+    },
+    [request]
+  );
+
+  // Full record with keystrokes, only fetched when a replay opens
+  const loadSession = useCallback(
+    (id: string) => request("getSession", { id }),
+    [request]
+  );
+
+  // Trends and bests are computed in the extension over every session, not the loaded pages
+  const loadStats = useCallback(
+    (filters: HistoryFilters, period: TrendPeriod) =>
+      request("getHistoryStats", { filters, period }),
+    [request]
+  );
+
+  const loadHeatmap = useCallback(
+    (ids: string[], layout: KeyboardLayoutName) =>
+      request("getKeyHeatmap", { ids, layout }),
+    [request]
+  );
+
+  return {
+    ...state,
+    refresh,
+    loadMore,
+    deleteSession,
+    loadSession,
+    loadStats,
+    loadHeatmap,
+  };
+};
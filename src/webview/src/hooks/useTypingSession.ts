@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useState } from "react";
+import { useVSCodeAPI } from "./useVSCodeAPI";
+import {
+  SessionMode,
+  SessionUpdate,
+  TypingSession,
+  TypingStats,
+} from "../types";
+
+export type SessionStatus =
+  | "idle"
+  | "starting"
+  | "running"
+  | "paused"
+  | "completed";
+
+export interface SessionResult {
+  session: TypingSession;
+  stats: TypingStats;
+}
+
+interface TypingSessionState {
+  status: SessionStatus;
+  sessionId: string | null;
+  mode: SessionMode;
+  target: number;
+  targetText: string;
+  paragraphId?: string;
+  update: SessionUpdate | null;
+  updateReceivedAt: number; // local time of the last sessionUpdate, drives the ticking timer
+  result: SessionResult | null;
+  error: string | null;
+}
+
+const initialState: TypingSessionState = {
+  status: "idle",
+  sessionId: null,
+  mode: "tick-tick",
+  target: 0,
+  targetText: "",
+  update: null,
+  updateReceivedAt: 0,
+  result: null,
+  error: null,
+};
+
+// The session itself runs in the extension host, this hook mirrors it from messages
+export const useTypingSession = () => {
+  const { sendMessage, request, handleMessage } = useVSCodeAPI();
+  const [state, setState] = useState<TypingSessionState>(initialState);
+
+  useEffect(
+    () =>
+      handleMessage((message) => {
+        switch (message.type) {
+          case "sessionStarted":
+            setState({
+              ...initialState,
+              status: "running",
+              sessionId: message.payload.sessionId,
+              mode: message.payload.config.mode,
+              target: message.payload.config.target,
+              targetText: message.payload.config.targetText,
+              paragraphId: message.payload.config.paragraphId,
+            });
+            break;
+
+          case "sessionUpdate":
+            setState((prev) => ({
+              ...prev,
+              update: message.payload,
+              updateReceivedAt: Date.now(),
+              status: message.payload.isCompleted
+                ? prev.status
+                : message.payload.isPaused
+                ? "paused"
+                : message.payload.isActive
+                ? "running"
+                : prev.status,
+            }));
+            break;
+
+          case "sessionCompleted":
+            setState((prev) => ({
+              ...prev,
+              status: "completed",
+              result: message.payload,
+            }));
+            break;
+
+          case "error":
+            if (!message.requestId)
+              setState((prev) => ({ ...prev, error: message.payload.message }));
+            break;
+        }
+      }),
+    [handleMessage]
+  );
+
+  const start = useCallback(
+    async (
+      mode: SessionMode,
+      target: number,
+      targetText: string,
+      paragraphId?: string
+    ) => {
+      setState({
+        ...initialState,
+        status: "starting",
+        mode,
+        target,
+        targetText,
+        paragraphId,
+      });
+
+      try {
+        await request("startSession", {
+          sessionId: crypto.randomUUID(),
+          mode,
+          target,
+          targetText,
+          paragraphId,
+        });
+      } catch (error) {
+        setState((prev) => ({
+          ...prev,
+          status: "idle",
+          error: (error as Error).message,
+        }));
+      }
+    },
+    [request]
+  );
+
+  const sendKeystroke = useCallback(
+    (character: string) => sendMessage("keystroke", { character }),
+    [sendMessage]
+  );
+
+  const pause = useCallback(() => sendMessage("pauseSession"), [sendMessage]);
+  const resume = useCallback(() => sendMessage("resumeSession"), [sendMessage]);
+  const end = useCallback(() => sendMessage("endSession"), [sendMessage]);
+
+  const reset = useCallback(() => setState(initialState), []);
+
+  return {
+    ...state,
+    start,
+    sendKeystroke,
+    pause,
+    resume,
+    end,
+    reset,
+  };
+};
@@ -1,15 +1,18 @@
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import {
-  CustomParagraph,
-  ExtensionSettings,
-  SessionConfig,
-  SessionState,
-  TypingSession,
-  TypingStats,
-} from "../types";
+  createWebviewMessage,
+  isExtensionMessage,
+  ErrorCode,
+  ExtensionMessage,
+  PayloadArgs,
+  ResponsePayload,
+  WebviewMessage,
+  WebviewMessagePayloads,
+  WebviewMessageType,
+} from "../../../shared/messageProtocol";
 
 interface VSCodeAPI {
-  postMessage: (message: any) => void;
+  postMessage: (message: WebviewMessage) => void;
   setState: (state: any) => void;
   getState: () => any;
 }
@@ -20,56 +23,153 @@ declare global {
   }
 }
 
-export type WebviewMessage =
-  | { type: "getParagraphs" }
-  | { type: "startSession"; payload: SessionConfig }
-  | { type: "endSession" }
-  | { type: "pauseSession" }
-  | { type: "resumeSession" }
-  | { type: "keystroke"; payload: { character: string } }
-  | { type: "getSessionHistory" }
-  | { type: "getSettings" }
-  | { type: "updateSettings"; payload: Partial<ExtensionSettings> }
-  | { type: "saveParagraph"; payload: CustomParagraph }
-  | { type: "deleteParagraph"; payload: { id: string } };
-
-export type ExtensionMessage =
-  | { type: "paragraphsLoaded"; payload: CustomParagraph[] }
-  | { type: "sessionStarted"; payload: { sessionId: string } }
-  | { type: "sessionUpdate"; payload: SessionState }
-  | {
-      type: "sessionCompleted";
-      payload: { session: TypingSession; stats: TypingStats };
-    }
-  | { type: "sessionHistoryLoaded"; payload: TypingSession[] }
-  | { type: "settingsLoaded"; payload: ExtensionSettings }
-  | { type: "error"; payload: { message: string; details?: any } };
-
-export const useVSCodeAPI = () => {
-  const [vscode] = useState<VSCodeAPI>(() => {
-    if (typeof window !== "undefined" && window.acquireVsCodeApi)
-      return window.acquireVsCodeApi();
-
-    return {
-      postMessage: (message: any) => console.log("DEV: Message sent:", message),
+export type { WebviewMessage, ExtensionMessage };
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+
+// acquireVsCodeApi throws when called twice, so every hook instance shares one handle
+let vscodeApi: VSCodeAPI | undefined;
+
+const getVSCodeAPI = (): VSCodeAPI => {
+  if (vscodeApi) return vscodeApi;
+
+  if (typeof window !== "undefined" && window.acquireVsCodeApi)
+    vscodeApi = window.acquireVsCodeApi();
+  else
+    vscodeApi = {
+      postMessage: (message: WebviewMessage) =>
+        console.log("DEV: Message sent:", message),
       setState: (state: any) => console.log("DEV: State set:", state),
       getState: () => ({}),
     };
-  });
 
+  return vscodeApi;
+};
+
+// Rejection reason of request(), so UI code can show per-action errors
+export class RequestError extends Error {
+  constructor(
+    public readonly requestType: WebviewMessageType,
+    public readonly code: ErrorCode | "timeout" | "disposed",
+    message: string
+  ) {
+    super(message);
+    this.name = "RequestError";
+  }
+}
+
+interface PendingRequest {
+  type: WebviewMessageType;
+  resolve: (payload: any) => void;
+  reject: (error: RequestError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export const useVSCodeAPI = (options: { requestTimeoutMs?: number } = {}) => {
+  const requestTimeoutMs =
+    options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+
+  const [vscode] = useState<VSCodeAPI>(getVSCodeAPI);
+
+  const pendingRequests = useRef(new Map<string, PendingRequest>());
+
+  // Settle pending requests from replies that echo their requestId
+  useEffect(() => {
+    const pending = pendingRequests.current;
+
+    const responseHandler = (event: MessageEvent<unknown>) => {
+      const message = event.data;
+      if (!isExtensionMessage(message) || !message.requestId) return;
+
+      const request = pending.get(message.requestId);
+      if (!request) return;
+
+      clearTimeout(request.timer);
+      pending.delete(message.requestId);
+
+      if (message.type === "error")
+        request.reject(
+          new RequestError(
+            request.type,
+            message.payload.code,
+            message.payload.message
+          )
+        );
+      else request.resolve(message.payload);
+    };
+
+    window.addEventListener("message", responseHandler);
+    // Replies can no longer arrive, so nobody is left waiting on them
+    return () => {
+      window.removeEventListener("message", responseHandler);
+      pending.forEach((request) => {
+        clearTimeout(request.timer);
+        request.reject(
+          new RequestError(
+            request.type,
+            "disposed",
+            `${request.type} was cancelled before a reply arrived`
+          )
+        );
+      });
+      pending.clear();
+    };
+  }, []);
+
+  // The payload argument is typed from the message type, so a wrong payload fails to compile
   const sendMessage = useCallback(
-    (type: string, payload?: any) => {
-      const message: WebviewMessage = payload
-        ? ({ type, payload } as any)
-        : ({ type } as any);
-      vscode.postMessage(message);
+    <K extends WebviewMessageType>(
+      type: K,
+      ...args: PayloadArgs<WebviewMessagePayloads, K>
+    ) => {
+      vscode.postMessage(createWebviewMessage(type, ...args) as WebviewMessage);
     },
     [vscode]
   );
 
+  // Resolves with the payload of the matching reply, see RESPONSE_TYPES
+  const request = useCallback(
+    <K extends WebviewMessageType>(
+      type: K,
+      ...args: PayloadArgs<WebviewMessagePayloads, K>
+    ): Promise<ResponsePayload<K>> =>
+      new Promise((resolve, reject) => {
+        const requestId = crypto.randomUUID();
+
+        const timer = setTimeout(() => {
+          pendingRequests.current.delete(requestId);
+          reject(
+            new RequestError(
+              type,
+              "timeout",
+              `${type} timed out after ${requestTimeoutMs}ms`
+            )
+          );
+        }, requestTimeoutMs);
+
+        pendingRequests.current.set(requestId, {
+          type,
+          resolve,
+          reject,
+          timer,
+        });
+
+        vscode.postMessage({
+          ...createWebviewMessage(type, ...args),
+          requestId,
+        } as WebviewMessage);
+      }),
+    [vscode, requestTimeoutMs]
+  );
+
   const handleMessage = useCallback(
     (callback: (data: ExtensionMessage) => void) => {
-      const messageHandler = (event: MessageEvent<ExtensionMessage>) => {
+      const messageHandler = (event: MessageEvent<unknown>) => {
+        if (!isExtensionMessage(event.data)) {
+          console.warn("Ignoring unknown message:", event.data);
+          return;
+        }
+
         callback(event.data);
       };
 
@@ -81,6 +181,7 @@ export const useVSCodeAPI = () => {
 
   return {
     sendMessage,
+    request,
     handleMessage,
     setState: vscode.setState,
     getState: vscode.getState,
@@ -0,0 +1,30 @@
+export type CharacterState = "correct" | "incorrect" | "pending" | "extra";
+
+export interface RenderedCharacter {
+  char: string;
+  state: CharacterState;
+}
+
+// Same positional comparison as calculateCharacterStats, so the colors match the final stats
+export function getCharacterStates(
+  targetText: string,
+  input: string
+): RenderedCharacter[] {
+  const characters: RenderedCharacter[] = [];
+
+  for (let i = 0; i < targetText.length; i++) {
+    if (i >= input.length)
+      characters.push({ char: targetText[i], state: "pending" });
+    else
+      characters.push({
+        char: targetText[i],
+        state: input[i] === targetText[i] ? "correct" : "incorrect",
+      });
+  }
+
+  // Anything typed past the end of the target is shown as extra
+  for (let i = targetText.length; i < input.length; i++)
+    characters.push({ char: input[i], state: "extra" });
+
+  return characters;
+}
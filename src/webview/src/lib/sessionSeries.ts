@@ -0,0 +1,58 @@
+import { ReplayTimeline } from "../../../services/components/sessionReplay";
+import { Keystroke, TypingSession } from "../types";
+
+export interface WpmPoint {
+  second: number;
+  wpm: number; // net, from the characters right once aligned with the target
+  rawWpm: number; // every character typed, right or wrong
+}
+
+export interface IntervalPoint {
+  index: number;
+  key: string;
+  interval: number; // ms since the previous keystroke
+  isSpike: boolean;
+}
+
+// Samples the stats once per second from the replay timeline, so the chart follows
+// the same aligned net WPM as the live header and the final stats
+export function computeWpmSeries(session: TypingSession): WpmPoint[] {
+  const timeline = new ReplayTimeline(session);
+  const points: WpmPoint[] = [];
+  const totalSeconds = Math.ceil(timeline.duration / 1000);
+
+  for (let second = 1; second <= totalSeconds; second++) {
+    const { stats } = timeline.frameAt(
+      Math.min(second * 1000, timeline.duration)
+    );
+    points.push({ second, wpm: stats.wpm, rawWpm: stats.rawWpm });
+  }
+
+  return points;
+}
+
+// A spike is an interval more than two standard deviations above the mean
+export function computeIntervalSeries(
+  keystrokes: Keystroke[]
+): IntervalPoint[] {
+  const intervals = keystrokes.slice(1).map((keystroke, i) => ({
+    index: i + 1,
+    key: keystroke.key,
+    interval: keystroke.timestamp - keystrokes[i].timestamp,
+  }));
+
+  if (intervals.length === 0) return [];
+
+  const mean =
+    intervals.reduce((sum, point) => sum + point.interval, 0) /
+    intervals.length;
+  const variance =
+    intervals.reduce((sum, point) => sum + (point.interval - mean) ** 2, 0) /
+    intervals.length;
+  const threshold = mean + 2 * Math.sqrt(variance);
+
+  return intervals.map((point) => ({
+    ...point,
+    isSpike: intervals.length > 2 && point.interval > threshold,
+  }));
+}
@@ -0,0 +1,81 @@
+import { CustomParagraph, ErrorPattern, SessionMode } from "../types";
+
+// prettier-ignore
+const COMMON_WORDS = [
+  "the", "be", "of", "and", "a", "to", "in", "he", "have", "it",
+  "that", "for", "they", "with", "as", "not", "on", "she", "at", "by",
+  "this", "we", "you", "do", "but", "from", "or", "which", "one", "would",
+  "all", "will", "there", "say", "who", "make", "when", "can", "more", "if",
+  "no", "man", "out", "other", "so", "what", "time", "up", "go", "about",
+  "than", "into", "could", "state", "only", "new", "year", "some", "take", "come",
+  "these", "know", "see", "use", "get", "like", "then", "first", "any", "work",
+  "now", "may", "such", "give", "over", "think", "most", "even", "find", "day",
+  "also", "after", "way", "many", "must", "look", "before", "great", "back", "through",
+  "long", "where", "much", "should", "well", "people", "down", "own", "just", "because",
+  "good", "each", "those", "feel", "seem", "how", "high", "too", "place", "little",
+  "world", "very", "still", "nation", "hand", "old", "life", "tell", "write", "become",
+  "here", "show", "house", "both", "between", "need", "mean", "call", "develop", "under",
+  "last", "right", "move", "thing", "general", "school", "never", "same", "another", "begin",
+  "while", "number", "part", "turn", "real", "leave", "might", "want", "point", "form",
+];
+
+export const MODE_TARGETS: Record<SessionMode, number[]> = {
+  "tick-tick": [15, 30, 60, 120], // seconds
+  words: [10, 25, 50, 100], // word count
+  passage: [0], // target is ignored, the whole paragraph is typed
+};
+
+// Generous upper bound on typing speed, so timed tests never run out of text
+const MAX_WORDS_PER_SECOND = 4;
+
+export function generateWords(count: number): string {
+  const words: string[] = [];
+  for (let i = 0; i < count; i++)
+    words.push(COMMON_WORDS[Math.floor(Math.random() * COMMON_WORDS.length)]);
+
+  return words.join(" ");
+}
+
+export function buildTargetText(
+  mode: SessionMode,
+  target: number,
+  paragraph?: CustomParagraph
+): string {
+  switch (mode) {
+    case "tick-tick":
+      return generateWords(Math.max(25, target * MAX_WORDS_PER_SECOND));
+    case "words":
+      return generateWords(target);
+    case "passage":
+      return paragraph ? paragraph.content : generateWords(50);
+  }
+}
+
+// Drill text made of words that contain the characters the user got wrong
+export function buildPracticeText(
+  errorPatterns: ErrorPattern[],
+  sourceText: string,
+  wordCount = 30
+): string {
+  const weakChars = new Set(
+    errorPatterns
+      .map((pattern) => pattern.character)
+      .filter((char) => char.trim().length > 0)
+  );
+
+  const candidates = new Set([
+    ...sourceText.split(/\s+/).filter((word) => word.length > 0),
+    ...COMMON_WORDS,
+  ]);
+  const practiceWords = Array.from(candidates).filter((word) =>
+    Array.from(word).some((char) => weakChars.has(char))
+  );
+
+  if (practiceWords.length === 0) return generateWords(wordCount);
+
+  const words: string[] = [];
+  for (let i = 0; i < wordCount; i++)
+    words.push(practiceWords[Math.floor(Math.random() * practiceWords.length)]);
+
+  return words.join(" ");
+}
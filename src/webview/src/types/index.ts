@@ -13,8 +13,33 @@ export type {
   SessionMode,
   SessionConfig,
   SessionState,
+  SessionUpdate,
+  LiveSessionMetrics,
+  ReplayFrame,
+  SessionRecord,
+  SessionSummary,
+  HistoryFilters,
+  HistoryStats,
+  TrendPeriod,
 } from "../../../models/SessionModel";
 
+export type {
+  KeyboardLayoutName,
+  KeyHeat,
+  KeyHeatmap,
+} from "../../../models/KeyboardModel";
+
+export type { PatternRanking } from "../../../services/components/errorAnalyzer";
+
+export type {
+  WebviewMessage,
+  ExtensionMessage,
+  WebviewMessageType,
+  ExtensionMessageType,
+  ExtensionMessagePayloads,
+  ErrorCode,
+} from "../../../shared/messageProtocol";
+
 export interface VSCodeAPI {
   postMessage: (message: any) => void;
   setState: (state: any) => void;
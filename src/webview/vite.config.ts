@@ -25,5 +25,7 @@ export default defineConfig({
     port: 5173,
     strictPort: true,
     cors: true,
+    // Asset URLs must point back at the dev server, not the webview's own origin
+    origin: "http://localhost:5173",
   },
 });
@@ -0,0 +1,122 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+
+// Must match build.outDir and the fixed entry names in src/webview/vite.config.ts
+const WEBVIEW_BUILD_PATH = ["dist", "webview"];
+const ENTRY_SCRIPT = ["assets", "index.js"];
+const ENTRY_STYLE = ["assets", "index.css"];
+
+// Set by the "Run Extension (Webview Dev Server)" launch configuration
+export const DEV_SERVER_ENV = "TYPESH_WEBVIEW_DEV_SERVER";
+
+export function getWebviewBuildUri(extensionUri: vscode.Uri): vscode.Uri {
+  return vscode.Uri.joinPath(extensionUri, ...WEBVIEW_BUILD_PATH);
+}
+
+// The dev server is never used in production, even if the variable leaks into the environment
+export function getDevServerUrl(
+  extensionMode: vscode.ExtensionMode
+): string | undefined {
+  if (extensionMode === vscode.ExtensionMode.Production) return undefined;
+
+  const url = process.env[DEV_SERVER_ENV];
+  return url ? url.replace(/\/+$/, "") : undefined;
+}
+
+export function getWebviewHtml(
+  webview: vscode.Webview,
+  extensionUri: vscode.Uri,
+  devServerUrl?: string
+): string {
+  const nonce = getNonce();
+
+  if (devServerUrl) return getDevServerHtml(nonce, devServerUrl);
+
+  const buildUri = getWebviewBuildUri(extensionUri);
+  const scriptUri = vscode.Uri.joinPath(buildUri, ...ENTRY_SCRIPT);
+  const styleUri = vscode.Uri.joinPath(buildUri, ...ENTRY_STYLE);
+
+  if (!fs.existsSync(scriptUri.fsPath)) return getMissingBuildHtml(nonce);
+
+  // Chunks imported by the entry module carry no nonce, so cspSource is allowed too.
+  // localResourceRoots keeps cspSource limited to the webview build output.
+  const csp = [
+    "default-src 'none'",
+    `img-src ${webview.cspSource} data:`,
+    `font-src ${webview.cspSource}`,
+    `style-src ${webview.cspSource}`,
+    `script-src 'nonce-${nonce}' ${webview.cspSource}`,
+  ].join("; ");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta http-equiv="Content-Security-Policy" content="${csp}" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <link rel="stylesheet" href="${webview.asWebviewUri(styleUri)}" />
+    <title>typesh</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" nonce="${nonce}" src="${webview.asWebviewUri(
+      scriptUri
+    )}"></script>
+  </body>
+</html>`;
+}
+
+// Vite serves modules and injects <style> tags at runtime, and HMR needs a websocket
+function getDevServerHtml(nonce: string, devServerUrl: string): string {
+  const wsUrl = devServerUrl.replace(/^http/, "ws");
+
+  const csp = [
+    "default-src 'none'",
+    `img-src ${devServerUrl} data:`,
+    `font-src ${devServerUrl}`,
+    `style-src ${devServerUrl} 'unsafe-inline'`,
+    `script-src 'nonce-${nonce}' ${devServerUrl}`,
+    `connect-src ${devServerUrl} ${wsUrl}`,
+  ].join("; ");
+
+  // Preamble normally injected into index.html by @vitejs/plugin-react
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta http-equiv="Content-Security-Policy" content="${csp}" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>typesh (dev)</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" nonce="${nonce}">
+      import RefreshRuntime from "${devServerUrl}/@react-refresh";
+      RefreshRuntime.injectIntoGlobalHook(window);
+      window.$RefreshReg$ = () => {};
+      window.$RefreshSig$ = () => (type) => type;
+      window.__vite_plugin_react_preamble_installed__ = true;
+    </script>
+    <script type="module" nonce="${nonce}" src="${devServerUrl}/@vite/client"></script>
+    <script type="module" nonce="${nonce}" src="${devServerUrl}/src/main.tsx"></script>
+  </body>
+</html>`;
+}
+
+function getMissingBuildHtml(nonce: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'" />
+    <style nonce="${nonce}">body { padding: 1rem; font-family: var(--vscode-font-family); }</style>
+  </head>
+  <body>
+    <p>The typesh webview has not been built. Run <code>npm run build-webview</code> and reload the window.</p>
+  </body>
+</html>`;
+}
+
+function getNonce(): string {
+  return crypto.randomUUID().replace(/-/g, "");
+}
@@ -1,46 +1,46 @@
 import * as vscode from "vscode";
-import * as path from "path";
 import { TypingSessionManager } from "./services/TypingSessionManager";
 import { StorageService } from "./services/StorageService";
-import { SessionConfig, SessionState } from "./models/SessionModel";
+import { TypingAnalyzer } from "./services/TypingAnalyzer";
+import { computeHistoryStats } from "./services/components/historyStats";
+import { buildKeyHeatmap } from "./services/components/keyHeatmap";
+import { toSessionSummary } from "./services/components/sessionSummary";
+import {
+  getDevServerUrl,
+  getWebviewBuildUri,
+  getWebviewHtml,
+} from "./webviewHtml";
+import {
+  HistoryFilters,
+  SessionConfig,
+  TrendPeriod,
+} from "./models/SessionModel";
+import { KeyboardLayoutName } from "./models/KeyboardModel";
 import {
   CustomParagraph,
   ExtensionSettings,
   TypingSession,
-  TypingStats,
 } from "./models/TypingModel";
-
-export type WebviewMessage =
-  | { type: "getParagraphs" }
-  | { type: "startSession"; payload: SessionConfig }
-  | { type: "endSession" }
-  | { type: "pauseSession" }
-  | { type: "resumeSession" }
-  | { type: "keystroke"; payload: { character: string } }
-  | { type: "getSessionHistory" }
-  | { type: "getSettings" }
-  | { type: "updateSettings"; payload: Partial<ExtensionSettings> }
-  | { type: "saveParagraph"; payload: CustomParagraph }
-  | { type: "deleteParagraph"; payload: { id: string } };
-
-export type ExtensionMessage =
-  | { type: "paragraphsLoaded"; payload: CustomParagraph[] }
-  | { type: "sessionStarted"; payload: { sessionId: string } }
-  | { type: "sessionUpdate"; payload: SessionState }
-  | {
-      type: "sessionCompleted";
-      payload: { session: TypingSession; stats: TypingStats };
-    }
-  | { type: "sessionHistoryLoaded"; payload: TypingSession[] }
-  | { type: "settingsLoaded"; payload: ExtensionSettings }
-  | { type: "error"; payload: { message: string; details?: any } };
+import {
+  createExtensionMessage,
+  ErrorCode,
+  ExtensionMessagePayloads,
+  ExtensionMessageType,
+  HISTORY_PAGE_SIZE,
+  PayloadArgs,
+  RESPONSE_TYPES,
+  validateWebviewMessage,
+} from "./shared/messageProtocol";
 
 export class TypeshWebViewProvider implements vscode.WebviewViewProvider {
-  public static readonly viewType = "typesh.typingTest";
+  public static readonly viewType = "typingTest.webview";
 
   // _view indicates our whole webview
   private _view?: vscode.WebviewView;
   private currentManager: TypingSessionManager | null = null;
+  // Messages posted before the app mounts are lost, so commands wait for its ready message
+  private viewReady = false;
+  private pendingActions: (() => Promise<void>)[] = [];
 
   constructor(
     private readonly context: vscode.ExtensionContext,
@@ -55,21 +55,183 @@ export class TypeshWebViewProvider implements vscode.WebviewViewProvider {
     token: vscode.CancellationToken
   ): Thenable<void> | void {
     this._view = webviewView;
+    this.viewReady = false; // the html is loaded again, so is the app
+
+    const devServerUrl = getDevServerUrl(this.context.extensionMode);
+
+    webviewView.webview.options = {
+      enableScripts: true,
+      localResourceRoots: [getWebviewBuildUri(this.context.extensionUri)],
+    };
+    webviewView.webview.html = getWebviewHtml(
+      webviewView.webview,
+      this.context.extensionUri,
+      devServerUrl
+    );
+
+    const messageListener = webviewView.webview.onDidReceiveMessage(
+      this.handleMessage
+    );
+
+    webviewView.onDidDispose(() => {
+      messageListener.dispose();
+      this._view = undefined;
+      this.viewReady = false;
+    });
+  }
+
+  // Command Entry Points //
+  // These back the command palette entries registered in extension.ts
+
+  public async startTest(): Promise<void> {
+    await this.runCommand(async () => {
+      await this.revealView();
+      const sessionConfig = await this.createDefaultSessionConfig();
+      await this.runWhenReady(() => this.handleStartSession(sessionConfig));
+    });
+  }
+
+  public async pauseTest(): Promise<void> {
+    await this.runCommand(async () => {
+      if (!this.ensureActiveSession()) return;
+      await this.handlePauseSession();
+    });
+  }
+
+  public async resumeTest(): Promise<void> {
+    await this.runCommand(async () => {
+      if (!this.ensureActiveSession()) return;
+      await this.revealView();
+      await this.handleResumeSession();
+    });
+  }
+
+  public async endTest(): Promise<void> {
+    await this.runCommand(async () => {
+      if (!this.ensureActiveSession()) return;
+      await this.handleEndSession();
+    });
+  }
+
+  public async showHistory(): Promise<void> {
+    await this.runCommand(async () => {
+      await this.revealView();
+      await this.runWhenReady(() =>
+        this.handleGetSessionHistory(0, HISTORY_PAGE_SIZE)
+      );
+    });
+  }
+
+  // Pushes stored data again after it changed outside the webview, e.g. an import
+  public async refreshData(): Promise<void> {
+    if (!this._view) return;
+
+    await this.runCommand(async () => {
+      await this.handleGetParagraphs();
+      await this.handleGetSettings();
+    });
+  }
+
+  // Pushes settings again after the configuration changed, e.g. in the Settings UI
+  public async refreshSettings(): Promise<void> {
+    if (!this._view) return;
+
+    await this.runCommand(() => this.handleGetSettings());
+  }
+
+  private async runCommand(action: () => Promise<void>): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `typesh: ${error instanceof Error ? error.message : error}`
+      );
+      console.error("WebviewProvider command error:", error);
+    }
+  }
+
+  private async runWhenReady(action: () => Promise<void>): Promise<void> {
+    if (this.viewReady) return action();
+
+    this.pendingActions.push(action);
+  }
+
+  private async handleReady(): Promise<void> {
+    this.viewReady = true;
+
+    const actions = this.pendingActions;
+    this.pendingActions = [];
+    for (const action of actions) await this.runCommand(action);
+  }
+
+  private ensureActiveSession(): boolean {
+    if (this.currentManager) return true;
+
+    vscode.window.showInformationMessage("No typing test is running");
+    return false;
+  }
+
+  // Focusing the view forces VS Code to resolve it if it was never opened
+  private async revealView(): Promise<void> {
+    if (this._view) {
+      this._view.show(true);
+      return;
+    }
+
+    await vscode.commands.executeCommand(
+      `${TypeshWebViewProvider.viewType}.focus`
+    );
+  }
+
+  private async createDefaultSessionConfig(): Promise<SessionConfig> {
+    const settings = await this.storageService.getSettings();
+    const paragraphs = await this.storageService.getAllParagraphs();
+
+    if (paragraphs.length === 0)
+      throw new Error("No paragraphs available to start a test");
+
+    const paragraph = paragraphs[Math.floor(Math.random() * paragraphs.length)];
+
+    return {
+      sessionId: crypto.randomUUID(),
+      mode: "tick-tick",
+      target: settings.defaultTimer,
+      targetText: paragraph.content,
+      paragraphId: paragraph.id,
+    };
   }
 
   //  Message Handler
   //  Each message type corresponds to a user action in our webview/react app
-  private async handleMessage(message: WebviewMessage): Promise<void> {
+  //  Messages are validated first, so malformed input gets an error reply instead of a throw
+  private async handleMessage(raw: unknown): Promise<void> {
     if (!this._view) return;
 
+    const validation = validateWebviewMessage(raw);
+    if (!validation.valid) {
+      console.warn("WebviewProvider rejected message:", validation.error, raw);
+      this.reply(validation.requestId, "error", {
+        code: validation.code,
+        message: validation.error,
+      });
+      return;
+    }
+
+    const message = validation.message;
+    const { requestId } = message;
+
     try {
       switch (message.type) {
+        case "ready":
+          await this.handleReady();
+          break;
+
         case "getParagraphs":
-          await this.handleGetParagraphs();
+          await this.handleGetParagraphs(requestId);
           break;
 
         case "startSession":
-          await this.handleStartSession(message.payload);
+          await this.handleStartSession(message.payload, requestId);
           break;
 
         case "endSession":
@@ -77,35 +239,63 @@ export class TypeshWebViewProvider implements vscode.WebviewViewProvider {
           break;
 
         case "pauseSession":
-          this.handlePauseSession();
+          await this.handlePauseSession();
           break;
 
         case "resumeSession":
-          this.handleResumeSession();
+          await this.handleResumeSession();
           break;
 
         case "keystroke":
-          this.handleKeystroke(message.payload.character);
+          await this.handleKeystroke(message.payload.character);
           break;
 
         case "getSessionHistory":
-          await this.handleGetSessionHistory();
+          await this.handleGetSessionHistory(
+            message.payload.offset,
+            message.payload.limit,
+            requestId
+          );
+          break;
+
+        case "getSession":
+          await this.handleGetSession(message.payload.id, requestId);
+          break;
+
+        case "getHistoryStats":
+          await this.handleGetHistoryStats(
+            message.payload.filters,
+            message.payload.period,
+            requestId
+          );
+          break;
+
+        case "getKeyHeatmap":
+          await this.handleGetKeyHeatmap(
+            message.payload.ids,
+            message.payload.layout,
+            requestId
+          );
+          break;
+
+        case "deleteSession":
+          await this.handleDeleteSession(message.payload.id);
           break;
 
         case "getSettings":
-          await this.handleGetSettings();
+          await this.handleGetSettings(requestId);
           break;
 
         case "updateSettings":
-          await this.handleUpdateSettings(message.payload);
+          await this.handleUpdateSettings(message.payload, requestId);
           break;
 
         case "saveParagraph":
-          await this.handleSaveParagraph(message.payload);
+          await this.handleSaveParagraph(message.payload, requestId);
           break;
 
         case "deleteParagraph":
-          await this.handleDeleteParagraph(message.payload.id);
+          await this.handleDeleteParagraph(message.payload.id, requestId);
           break;
 
         default:
@@ -113,59 +303,230 @@ export class TypeshWebViewProvider implements vscode.WebviewViewProvider {
           const _exhaustive: never = message;
           console.warn("Unhandled message type: ", message);
       }
+
+      if (requestId && RESPONSE_TYPES[message.type] === "ack")
+        this.reply(requestId, "ack", { requestType: message.type });
     } catch (error) {
-      this.sendMessage({
-        type: "error",
-        payload: {
-          message:
-            error instanceof Error ? error.message : "Unknown error occurred",
-          details: error,
-        },
-      });
-      console.error("WebviewProvider error:", error);
+      this.sendError(error, "handlerFailed", requestId);
     }
   }
 
-  private async handleGetParagraphs(): Promise<void> {
-    const paragraphs = await this.storageService.getCustomParagraphs();
-    this.sendMessage({
-      type: "paragraphsLoaded",
-      payload: paragraphs,
-    });
+  private async handleGetParagraphs(requestId?: string): Promise<void> {
+    const paragraphs = await this.storageService.getAllParagraphs();
+    this.reply(requestId, "paragraphsLoaded", paragraphs);
   }
 
   private async handleStartSession(
-    sessionConfig: SessionConfig
-  ): Promise<void> {}
+    sessionConfig: SessionConfig,
+    requestId?: string
+  ): Promise<void> {
+    // Only one session can run at a time, starting a new one discards the old
+    if (this.currentManager) this.disposeCurrentManager();
+
+    const manager = new TypingSessionManager({
+      mode: sessionConfig.mode,
+      target: sessionConfig.target,
+      targetText: sessionConfig.targetText,
+      paragraphId: sessionConfig.paragraphId,
+    });
 
-  private async handlePauseSession(): Promise<void> {}
+    manager.onProgressUpdate((state) => {
+      this.sendMessage("sessionUpdate", {
+        ...state,
+        metrics: manager.getLiveMetrics(),
+      });
+    });
 
-  private async handleResumeSession(): Promise<void> {}
+    manager.onSessionComplete((session) => {
+      this.handleSessionCompleted(session).catch((error) =>
+        this.sendError(error)
+      );
+    });
 
-  private async handleKeystroke(key: string): Promise<void> {}
+    this.currentManager = manager;
 
-  private async handleGetSessionHistory(): Promise<void> {}
+    // The config is echoed so the webview can render sessions started from commands
+    this.reply(requestId, "sessionStarted", {
+      sessionId: manager.getSessionId(),
+      config: manager.getConfig(),
+    });
 
-  private async handleGetSettings(): Promise<void> {}
+    manager.startSession();
+  }
+
+  private async handlePauseSession(): Promise<void> {
+    this.requireManager().pauseSession();
+  }
+
+  private async handleResumeSession(): Promise<void> {
+    this.requireManager().resumeSession();
+  }
+
+  private async handleKeystroke(key: string): Promise<void> {
+    this.requireManager().processKeystroke(key);
+  }
+
+  // Summaries only, the keystrokes stay here until a replay asks for them
+  private async handleGetSessionHistory(
+    offset: number,
+    limit: number,
+    requestId?: string
+  ): Promise<void> {
+    const page = await this.storageService.getSessions({ offset, limit });
+    this.reply(requestId, "sessionHistoryLoaded", {
+      summaries: page.records.map(toSessionSummary),
+      offset,
+      total: page.total,
+    });
+  }
+
+  private async handleGetSession(
+    id: string,
+    requestId?: string
+  ): Promise<void> {
+    const { records } = await this.storageService.getSessions({ ids: [id] });
+    if (records.length === 0) throw new Error(`No session with id ${id}`);
+
+    this.reply(requestId, "sessionLoaded", records[0]);
+  }
+
+  // Over every saved session, the webview only holds the history pages it loaded
+  private async handleGetHistoryStats(
+    filters: HistoryFilters,
+    period: TrendPeriod,
+    requestId?: string
+  ): Promise<void> {
+    const summaries = await this.storageService.getSessionSummaries();
+    this.reply(
+      requestId,
+      "historyStatsLoaded",
+      computeHistoryStats(summaries, filters, period)
+    );
+  }
+
+  // Built here from the keystrokes of the given sessions, so they never cross the channel
+  private async handleGetKeyHeatmap(
+    ids: string[],
+    layout: KeyboardLayoutName,
+    requestId?: string
+  ): Promise<void> {
+    const { records } = await this.storageService.getSessions({ ids });
+    this.reply(
+      requestId,
+      "keyHeatmapLoaded",
+      buildKeyHeatmap(
+        records.map((record) => record.session),
+        layout
+      )
+    );
+  }
+
+  private async handleDeleteSession(id: string): Promise<void> {
+    const deleted = await this.storageService.deleteSessionById(id);
+
+    if (!deleted) {
+      throw new Error("Failed to delete session");
+    }
+  }
+
+  private async handleGetSettings(requestId?: string): Promise<void> {
+    const settings = await this.storageService.getSettings();
+    this.reply(requestId, "settingsLoaded", settings);
+  }
 
   private async handleUpdateSettings(
-    settings: Partial<ExtensionSettings>
-  ): Promise<void> {}
+    settings: Partial<ExtensionSettings>,
+    requestId?: string
+  ): Promise<void> {
+    await this.storageService.updateSettings(settings);
+    await this.handleGetSettings(requestId);
+  }
+
+  // endSession triggers onSessionComplete, which does the analysis and saving
+  private async handleEndSession(): Promise<void> {
+    this.requireManager().endSession();
+  }
+
+  private async handleSessionCompleted(session: TypingSession): Promise<void> {
+    this.currentManager = null;
 
-  private async handleEndSession(): Promise<void> {}
+    const stats = TypingAnalyzer.analyzeSession(session);
+    // A session nobody typed in, e.g. a timer that ran out unseen, is not worth keeping
+    if (session.keystrokes.length > 0)
+      await this.storageService.saveSession(session, stats);
+
+    this.sendMessage("sessionCompleted", { session, stats });
+  }
 
   private async handleSaveParagraph(
-    paragraph: CustomParagraph
-  ): Promise<void> {}
+    paragraph: CustomParagraph,
+    requestId?: string
+  ): Promise<void> {
+    await this.storageService.saveCustomParagraph(paragraph);
+    await this.handleGetParagraphs(requestId);
+  }
 
-  private async handleDeleteParagraph(id: string): Promise<void> {
+  private async handleDeleteParagraph(
+    id: string,
+    requestId?: string
+  ): Promise<void> {
     const deleted = await this.storageService.deleteCustomParagraph(id);
 
     if (!deleted) {
       throw new Error("Failed to delete paragraph");
     }
 
-    await this.handleGetParagraphs();
+    await this.handleGetParagraphs(requestId);
+  }
+
+  private requireManager(): TypingSessionManager {
+    if (!this.currentManager) throw new Error("No active typing session");
+
+    return this.currentManager;
+  }
+
+  private disposeCurrentManager(): void {
+    if (!this.currentManager) return;
+
+    // Detach callbacks first so the reset does not leak updates to the webview
+    this.currentManager.onProgressUpdate(() => {});
+    this.currentManager.onSessionComplete(() => {});
+    this.currentManager.resetSession();
+    this.currentManager = null;
+  }
+
+  private sendError(
+    error: unknown,
+    code: ErrorCode = "handlerFailed",
+    requestId?: string
+  ): void {
+    this.reply(requestId, "error", {
+      code,
+      message:
+        error instanceof Error ? error.message : "Unknown error occurred",
+      details: error instanceof Error ? error.stack : error,
+    });
+    console.error("WebviewProvider error:", error);
+  }
+
+  // Unsolicited messages, e.g. session updates pushed while typing
+  private sendMessage<K extends ExtensionMessageType>(
+    type: K,
+    ...args: PayloadArgs<ExtensionMessagePayloads, K>
+  ): void {
+    this.reply(undefined, type, ...args);
+  }
+
+  private reply<K extends ExtensionMessageType>(
+    requestId: string | undefined,
+    type: K,
+    ...args: PayloadArgs<ExtensionMessagePayloads, K>
+  ): void {
+    if (!this._view) return;
+
+    const message = createExtensionMessage(type, ...args);
+    this._view.webview.postMessage(
+      requestId ? { ...message, requestId } : message
+    );
   }
-  private sendMessage(message: ExtensionMessage): void {}
 }